@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -14,23 +14,50 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as ImagePicker from 'expo-image-picker';
+import * as Location from 'expo-location';
 import { IconSymbol } from '@/components/IconSymbol';
 import { colors, commonStyles } from '@/styles/commonStyles';
 import Constants from 'expo-constants';
-import { BACKEND_URL } from '@/utils/api';
+import { ApiError, BACKEND_URL } from '@/utils/api';
+import {
+  Analysis,
+  Edibility,
+  LookalikeWarning,
+  PartialAnalysis,
+  PresentationDecision,
+  SafetyCitations,
+  SafetyConflict,
+  SafetySources,
+  ScanUploadResponse,
+  api,
+} from '@/utils/apiClient';
 import { useAuth } from '@/contexts/AuthContext';
+import { useScanQueue } from '@/contexts/ScanQueueContext';
+import {
+  ScanCapture,
+  generateClientScanId,
+  isRetryableUploadError,
+  uploadScan,
+  waitForAnalysis,
+} from '@/utils/scanQueue';
 import { router } from 'expo-router';
-
-interface ScanResult {
+import { LocationPrecision } from '@/utils/location';
+import { SafetyAssessmentList } from '@/components/SafetyAssessmentList';
+import { CitationList } from '@/components/CitationList';
+import { UncertainIdentificationBanner } from '@/components/UncertainIdentificationBanner';
+import { LookalikeWarningCard } from '@/components/LookalikeWarningCard';
+import { CandidateList } from '@/components/CandidateList';
+import { UploadProgressCard, UploadStage } from '@/components/UploadProgressCard';
+
+// The analysed scan, as shown below the photo
+interface ScanResult extends Analysis {
   scanId: string;
-  species: string;
-  commonName: string;
-  isSafeToEat: boolean;
-  isSafeToTouch: boolean;
-  confidence: string;
-  warnings: string;
-  description: string;
-  imageUrl: string;
+  edibility: Edibility;
+  lookalikeWarnings: LookalikeWarning[];
+  safetySources: SafetySources;
+  safetyConflicts: SafetyConflict[];
+  safetyCitations: SafetyCitations;
+  presentation: PresentationDecision;
 }
 
 export default function HomeScreen() {
@@ -40,18 +67,61 @@ export default function HomeScreen() {
   const colorScheme = useColorScheme();
   const theme = colors[colorScheme ?? 'light'];
   const { user, loading: authLoading } = useAuth();
+  const { isOnline, queueScan } = useScanQueue();
   
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [scanResult, setScanResult] = useState<ScanResult | null>(null);
+  // Stages and text fields streamed by the server while an upload is in flight
+  const [uploadStage, setUploadStage] = useState<UploadStage | null>(null);
+  const [partialAnalysis, setPartialAnalysis] = useState<PartialAnalysis>({});
+  const [lookalikesAcknowledged, setLookalikesAcknowledged] = useState(false);
+  const [locationPrecision, setLocationPrecision] = useState<LocationPrecision>('off');
+  const [photoLocation, setPhotoLocation] = useState<Location.LocationObjectCoords | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setLocationPrecision('off');
+      return;
+    }
+
+    console.log('Loading location precision setting');
+    api.settings.get()
+      .then((settings) => setLocationPrecision(settings.locationPrecision))
+      .catch((error) => console.error('Failed to load settings:', error));
+  }, [user]);
+
+  // Device position for a photo taken just now; gallery photos rely on their EXIF GPS on the server
+  const captureLocation = async () => {
+    if (locationPrecision === 'off') {
+      return null;
+    }
+
+    try {
+      const permission = await Location.requestForegroundPermissionsAsync();
+      if (!permission.granted) {
+        console.log('Location permission denied, scanning without location');
+        return null;
+      }
+
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      console.log('Captured photo location');
+      return position.coords;
+    } catch (error) {
+      console.error('Error getting location:', error);
+      return null;
+    }
+  };
 
   const pickImage = async () => {
     console.log('User tapped Pick Image button');
     try {
+      // A picked photo may have been taken anywhere, so no device location is
+      // sent and the server reads its EXIF GPS instead. Editing would re-encode
+      // the photo without it.
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ['images'],
-        allowsEditing: true,
-        aspect: [4, 3],
+        allowsEditing: false,
         quality: 1,
       });
 
@@ -60,6 +130,7 @@ export default function HomeScreen() {
       if (!result.canceled) {
         console.log('Image selected:', result.assets[0].uri);
         setSelectedImage(result.assets[0].uri);
+        setPhotoLocation(null);
         setScanResult(null);
       }
     } catch (error) {
@@ -91,6 +162,7 @@ export default function HomeScreen() {
         console.log('Photo taken:', result.assets[0].uri);
         setSelectedImage(result.assets[0].uri);
         setScanResult(null);
+        setPhotoLocation(await captureLocation());
       }
     } catch (error) {
       console.error('Error taking photo:', error);
@@ -121,61 +193,80 @@ export default function HomeScreen() {
     console.log('User tapped Analyze button, starting analysis...');
     setIsAnalyzing(true);
     setScanResult(null);
+    setUploadStage(null);
+    setPartialAnalysis({});
 
     try {
       // Step 1: Upload image to backend
       console.log('Step 1: Uploading image to backend...');
       
-      // Create FormData for image upload
-      const formData = new FormData();
-      
       // Get file extension from URI
       const uriParts = selectedImage.split('.');
       const fileType = uriParts[uriParts.length - 1];
       
-      // Create file object for upload
-      const file = {
-        uri: selectedImage,
-        type: `image/${fileType}`,
-        name: `scan.${fileType}`,
-      } as any;
-      
-      formData.append('image', file);
-      
-      console.log('Uploading to:', `${BACKEND_URL}/api/scans/upload`);
-      
-      const uploadResponse = await fetch(`${BACKEND_URL}/api/scans/upload`, {
-        method: 'POST',
-        body: formData,
-        headers: {
-          'Accept': 'application/json',
-        },
-      });
+      const capture: ScanCapture = {
+        imageUri: selectedImage,
+        mimeType: `image/${fileType}`,
+        latitude: photoLocation?.latitude,
+        longitude: photoLocation?.longitude,
+      };
+      // Reused if the capture has to be queued, so a retry never creates a second scan
+      const clientScanId = generateClientScanId();
+
+      const saveForLater = async () => {
+        await queueScan(capture, clientScanId);
+        setIsAnalyzing(false);
+        resetScan();
+        Alert.alert(
+          'Saved for Later',
+          'This scan will be uploaded and analyzed automatically when you are back online. You can find it under Pending Scans in your history.'
+        );
+      };
 
-      if (!uploadResponse.ok) {
-        const errorText = await uploadResponse.text();
-        console.error('Upload failed:', uploadResponse.status, errorText);
-        throw new Error(`Upload failed: ${uploadResponse.status}`);
+      if (!isOnline) {
+        console.log('Offline, queueing scan:', clientScanId);
+        await saveForLater();
+        return;
       }
 
-      const uploadData = await uploadResponse.json();
+      let uploadData: ScanUploadResponse;
+      try {
+        uploadData = await uploadScan(capture, clientScanId, (event) => {
+          console.log('Upload stage:', event.stage);
+          setUploadStage(event.stage);
+          if (event.stage === 'partial') {
+            setPartialAnalysis(event.analysis);
+          }
+        });
+      } catch (error) {
+        if (error instanceof ApiError && isRetryableUploadError(error)) {
+          console.log('Upload failed with a retryable error, queueing scan:', clientScanId);
+          await saveForLater();
+          return;
+        }
+        throw error;
+      }
       console.log('Upload successful:', uploadData);
 
-      // Step 2: The backend automatically analyzes the image and returns the result
-      // The response should contain the scan result
-      const result: ScanResult = {
-        scanId: uploadData.id || uploadData.scanId,
-        species: uploadData.species || 'Unknown',
-        commonName: uploadData.commonName || 'Unknown',
-        isSafeToEat: uploadData.isSafeToEat || false,
-        isSafeToTouch: uploadData.isSafeToTouch || false,
-        confidence: uploadData.confidence || 'low',
-        warnings: uploadData.warnings || '',
-        description: uploadData.description || 'No description available',
-        imageUrl: uploadData.imageUrl || selectedImage,
-      };
+      // Step 2: The backend analyzes the image in the background; wait for the result
+      const scan = await waitForAnalysis(uploadData.scanId);
+      if (scan.status !== 'complete') {
+        console.log('Analysis did not complete:', scan.status);
+        setIsAnalyzing(false);
+        resetScan();
+        Alert.alert(
+          scan.status === 'failed' ? 'Analysis Failed' : 'Still Analyzing',
+          scan.status === 'failed'
+            ? 'This photo could not be analyzed. Please try again with another photo.'
+            : 'The analysis is taking longer than usual. It will appear in your history once it is done.'
+        );
+        return;
+      }
+
+      const result: ScanResult = { ...scan, scanId: scan.id };
 
       console.log('Analysis complete:', result);
+      setLookalikesAcknowledged(false);
       setScanResult(result);
       setIsAnalyzing(false);
     } catch (error) {
@@ -188,10 +279,26 @@ export default function HomeScreen() {
     }
   };
 
+  const acknowledgeLookalikes = async () => {
+    if (!scanResult) {
+      return;
+    }
+
+    console.log('User acknowledged look-alike warnings for scan:', scanResult.scanId);
+    setLookalikesAcknowledged(true);
+
+    try {
+      await api.scans.acknowledgeLookalikes(scanResult.scanId);
+    } catch (error) {
+      console.error('Failed to record look-alike acknowledgement:', error);
+    }
+  };
+
   const resetScan = () => {
     console.log('User tapped Reset button');
     setSelectedImage(null);
     setScanResult(null);
+    setPhotoLocation(null);
   };
 
   return (
@@ -231,6 +338,19 @@ export default function HomeScreen() {
                 color="#FFFFFF" 
               />
             </TouchableOpacity>
+            {photoLocation && (
+              <View style={[styles.locationBadge, { backgroundColor: theme.card }]}>
+                <IconSymbol 
+                  ios_icon_name="location.fill" 
+                  android_material_icon_name="place" 
+                  size={14} 
+                  color={theme.primary} 
+                />
+                <Text style={[styles.locationBadgeText, { color: theme.text }]}>
+                  {locationPrecision === 'exact' ? 'Exact' : 'Approximate'} location attached
+                </Text>
+              </View>
+            )}
           </View>
         ) : (
           <View style={[styles.placeholderContainer, { backgroundColor: theme.card, borderColor: theme.border }]}>
@@ -297,6 +417,9 @@ export default function HomeScreen() {
           </TouchableOpacity>
         )}
 
+        {/* Progress while the backend uploads and analyzes the image */}
+        {isAnalyzing && <UploadProgressCard stage={uploadStage} analysis={partialAnalysis} />}
+
         {/* Results */}
         {scanResult && (
           <View style={[styles.resultContainer, { backgroundColor: theme.card, borderColor: theme.border }]}>
@@ -314,31 +437,27 @@ export default function HomeScreen() {
               </Text>
             </View>
 
-            <View style={styles.safetyContainer}>
-              <View style={[styles.safetyBadge, { backgroundColor: scanResult.isSafeToEat ? theme.success : theme.danger }]}>
-                <IconSymbol 
-                  ios_icon_name={scanResult.isSafeToEat ? 'checkmark.circle.fill' : 'xmark.circle.fill'}
-                  android_material_icon_name={scanResult.isSafeToEat ? 'check-circle' : 'cancel'}
-                  size={20} 
-                  color="#FFFFFF" 
-                />
-                <Text style={styles.safetyText}>
-                  {scanResult.isSafeToEat ? 'Safe to Eat' : 'Not Safe to Eat'}
-                </Text>
-              </View>
+            <UncertainIdentificationBanner presentation={scanResult.presentation} />
 
-              <View style={[styles.safetyBadge, { backgroundColor: scanResult.isSafeToTouch ? theme.success : theme.danger }]}>
-                <IconSymbol 
-                  ios_icon_name={scanResult.isSafeToTouch ? 'checkmark.circle.fill' : 'xmark.circle.fill'}
-                  android_material_icon_name={scanResult.isSafeToTouch ? 'check-circle' : 'cancel'}
-                  size={20} 
-                  color="#FFFFFF" 
-                />
-                <Text style={styles.safetyText}>
-                  {scanResult.isSafeToTouch ? 'Safe to Touch' : 'Not Safe to Touch'}
-                </Text>
-              </View>
-            </View>
+            {/* Look-alike warnings must be acknowledged before safety verdicts are shown */}
+            {scanResult.lookalikeWarnings.length > 0 && (
+              <LookalikeWarningCard
+                warnings={scanResult.lookalikeWarnings}
+                acknowledged={lookalikesAcknowledged}
+                onAcknowledge={acknowledgeLookalikes}
+              />
+            )}
+
+            {(scanResult.lookalikeWarnings.length === 0 || lookalikesAcknowledged) && (
+              <SafetyAssessmentList
+                safety={scanResult.safety}
+                edibility={scanResult.edibility}
+                sources={scanResult.safetySources}
+                conflicts={scanResult.safetyConflicts}
+                citations={scanResult.safetyCitations}
+                presentation={scanResult.presentation}
+              />
+            )}
 
             <View style={[styles.confidenceBadge, { backgroundColor: theme.highlight }]}>
               <Text style={[styles.confidenceText, { color: theme.primary }]}>
@@ -357,11 +476,15 @@ export default function HomeScreen() {
                 <Text style={[styles.warningText, { color: theme.text }]}>{scanResult.warnings}</Text>
               </View>
             )}
+            {!!scanResult.warnings && <CitationList citations={scanResult.safetyCitations.warnings} />}
 
             <View style={styles.descriptionContainer}>
               <Text style={[styles.descriptionLabel, { color: theme.textSecondary }]}>Description:</Text>
               <Text style={[styles.descriptionText, { color: theme.text }]}>{scanResult.description}</Text>
             </View>
+
+            {/* Alternative candidates */}
+            <CandidateList candidates={scanResult.candidates} />
           </View>
         )}
 
@@ -428,6 +551,21 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  locationBadge: {
+    position: 'absolute',
+    bottom: 12,
+    left: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  locationBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   placeholderContainer: {
     height: 300,
     borderRadius: 16,
@@ -488,26 +626,6 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
-  safetyContainer: {
-    flexDirection: 'row',
-    gap: 8,
-    marginTop: 16,
-    marginBottom: 12,
-  },
-  safetyBadge: {
-    flex: 1,
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    padding: 12,
-    borderRadius: 8,
-    gap: 6,
-  },
-  safetyText: {
-    color: '#FFFFFF',
-    fontSize: 14,
-    fontWeight: '600',
-  },
   confidenceBadge: {
     padding: 8,
     borderRadius: 8,
@@ -11,6 +11,12 @@ export default function TabLayout() {
       icon: 'home',
       label: 'Home',
     },
+    {
+      name: 'map',
+      route: '/(tabs)/map',
+      icon: 'map',
+      label: 'Map',
+    },
     {
       name: 'profile',
       route: '/(tabs)/profile',
@@ -29,6 +35,7 @@ export default function TabLayout() {
         }}
       >
         <Stack.Screen key="home" name="(home)" />
+        <Stack.Screen key="map" name="map" />
         <Stack.Screen key="profile" name="profile" />
       </Stack>
       <FloatingTabBar tabs={tabs} />
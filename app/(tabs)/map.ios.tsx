@@ -0,0 +1,325 @@
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import MapView, { Marker, Region } from 'react-native-maps';
+import { IconSymbol } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import { MapScan, api } from '@/utils/apiClient';
+import { useAuth } from '@/contexts/AuthContext';
+import { router } from 'expo-router';
+import {
+  SafetySeverity,
+  SEVERITY_LABELS,
+  overallSeverity,
+  presentedSafety,
+  severityColor,
+  worstSeverity,
+} from '@/utils/safety';
+import { clusterPoints, MapRegion, regionToBoundingBox } from '@/utils/mapClusters';
+
+const WORLD_REGION: MapRegion = {
+  latitude: 20,
+  longitude: 0,
+  latitudeDelta: 140,
+  longitudeDelta: 360,
+};
+
+const LEGEND: SafetySeverity[] = ['safe', 'caution', 'harmful', 'deadly', 'unknown'];
+
+export default function MapScreen() {
+  console.log('MapScreen (iOS) rendered');
+
+  const colorScheme = useColorScheme();
+  const theme = colors[colorScheme ?? 'light'];
+  const { user, loading: authLoading } = useAuth();
+  const mapRef = useRef<MapView>(null);
+
+  const [scans, setScans] = useState<MapScan[]>([]);
+  const [region, setRegion] = useState<MapRegion>(WORLD_REGION);
+  const [isLoading, setIsLoading] = useState(false);
+  const [truncated, setTruncated] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const hasFittedRef = useRef(false);
+  // Ignore responses for regions the user has already moved away from
+  const requestIdRef = useRef(0);
+
+  const loadScans = useCallback(async (visibleRegion: MapRegion) => {
+    const requestId = ++requestIdRef.current;
+    const box = regionToBoundingBox(visibleRegion);
+
+    console.log('Loading scans for map region:', box);
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await api.scans.inBoundingBox(box);
+
+      if (requestId !== requestIdRef.current) {
+        console.log('Discarding stale map response');
+        return;
+      }
+
+      console.log('Map scans loaded:', data.scans.length);
+      setScans(data.scans);
+      setTruncated(data.truncated);
+
+      // Zoom to the user's scans the first time they load
+      if (!hasFittedRef.current && data.scans.length > 0) {
+        hasFittedRef.current = true;
+        mapRef.current?.fitToCoordinates(
+          data.scans.map((scan) => ({ latitude: scan.latitude, longitude: scan.longitude })),
+          { edgePadding: { top: 160, right: 60, bottom: 200, left: 60 }, animated: true }
+        );
+      }
+    } catch (err) {
+      console.error('Error loading map scans:', err);
+      if (requestId === requestIdRef.current) {
+        setError('Could not load your scans. Move the map to try again.');
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      loadScans(WORLD_REGION);
+    } else {
+      setScans([]);
+      hasFittedRef.current = false;
+    }
+  }, [user, loadScans]);
+
+  const onRegionChangeComplete = (nextRegion: Region) => {
+    setRegion(nextRegion);
+    if (user) {
+      loadScans(nextRegion);
+    }
+  };
+
+  const clusters = useMemo(() => clusterPoints(scans, region), [scans, region]);
+
+  const openScan = (scan: MapScan) => {
+    console.log('User tapped map marker for scan:', scan.id);
+    router.push({ pathname: '/scan/[id]', params: { id: scan.id } });
+  };
+
+  const zoomToCluster = (items: MapScan[]) => {
+    console.log('User tapped cluster of', items.length, 'scans');
+    mapRef.current?.fitToCoordinates(
+      items.map((scan) => ({ latitude: scan.latitude, longitude: scan.longitude })),
+      { edgePadding: { top: 120, right: 80, bottom: 160, left: 80 }, animated: true }
+    );
+  };
+
+  if (!authLoading && !user) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+        <View style={styles.signInContainer}>
+          <IconSymbol
+            ios_icon_name="map.fill"
+            android_material_icon_name="map"
+            size={48}
+            color={theme.primary}
+          />
+          <Text style={[styles.title, { color: theme.text }]}>Scan Map</Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            Sign in to see where you found plants and animals
+          </Text>
+          <TouchableOpacity
+            style={[styles.signInButton, { backgroundColor: theme.primary }]}
+            onPress={() => router.push('/auth')}
+          >
+            <Text style={styles.signInButtonText}>Sign In</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <MapView
+        ref={mapRef}
+        style={StyleSheet.absoluteFill}
+        initialRegion={WORLD_REGION}
+        onRegionChangeComplete={onRegionChangeComplete}
+        showsUserLocation
+      >
+        {clusters.map((cluster) => {
+          if (cluster.items.length === 1) {
+            const scan = cluster.items[0];
+            return (
+              <Marker
+                key={scan.id}
+                coordinate={{ latitude: scan.latitude, longitude: scan.longitude }}
+                pinColor={severityColor(overallSeverity(presentedSafety(scan.safety, scan.presentation)), theme)}
+                title={scan.commonName}
+                description={scan.species}
+                onPress={() => openScan(scan)}
+              />
+            );
+          }
+
+          const worst = worstSeverity(cluster.items.map((scan) => overallSeverity(presentedSafety(scan.safety, scan.presentation))));
+
+          return (
+            <Marker
+              key={cluster.id}
+              coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+              onPress={() => zoomToCluster(cluster.items)}
+              tracksViewChanges={false}
+            >
+              <View style={[styles.cluster, { backgroundColor: severityColor(worst, theme) }]}>
+                <Text style={styles.clusterText}>{cluster.items.length}</Text>
+              </View>
+            </Marker>
+          );
+        })}
+      </MapView>
+
+      <SafeAreaView style={styles.overlay} edges={['top']} pointerEvents="box-none">
+        <View style={[styles.headerCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <View style={styles.headerRow}>
+            <IconSymbol
+              ios_icon_name="map.fill"
+              android_material_icon_name="map"
+              size={24}
+              color={theme.primary}
+            />
+            <Text style={[styles.headerTitle, { color: theme.text }]}>Scan Map</Text>
+            {isLoading && <ActivityIndicator size="small" color={theme.primary} />}
+          </View>
+          <Text style={[styles.headerSubtitle, { color: theme.textSecondary }]}>
+            {error
+              ? error
+              : truncated
+                ? `Showing the ${scans.length} most recent scans here. Zoom in to see more.`
+                : `${scans.length} ${scans.length === 1 ? 'scan' : 'scans'} in view`}
+          </Text>
+        </View>
+      </SafeAreaView>
+
+      <View style={[styles.legend, { backgroundColor: theme.card, borderColor: theme.border }]}>
+        {LEGEND.map((severity) => (
+          <View key={severity} style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: severityColor(severity, theme) }]} />
+            <Text style={[styles.legendText, { color: theme.textSecondary }]}>
+              {SEVERITY_LABELS[severity]}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    paddingHorizontal: 16,
+  },
+  headerCard: {
+    marginTop: 8,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 4,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  headerSubtitle: {
+    fontSize: 13,
+  },
+  cluster: {
+    minWidth: 36,
+    height: 36,
+    borderRadius: 18,
+    paddingHorizontal: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+  clusterText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  legend: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 110,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    fontSize: 12,
+  },
+  signInContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    gap: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  signInButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+    borderRadius: 10,
+  },
+  signInButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
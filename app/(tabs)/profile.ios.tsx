@@ -1,10 +1,11 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
-  ScrollView,
+  FlatList,
+  TextInput,
   TouchableOpacity,
   Image,
   useColorScheme,
@@ -15,20 +16,28 @@ import { IconSymbol } from '@/components/IconSymbol';
 import { colors } from '@/styles/commonStyles';
 import Constants from 'expo-constants';
 import { BACKEND_URL } from '@/utils/api';
+import { Scan, ScanConfidence, api } from '@/utils/apiClient';
 import { useAuth } from '@/contexts/AuthContext';
+import { useScanQueue } from '@/contexts/ScanQueueContext';
+import { PendingScansList } from '@/components/PendingScansList';
 import { router } from 'expo-router';
+import { presentedSafety, SAFETY_ROUTES, severityColor } from '@/utils/safety';
+import { LocationPrecision, LOCATION_PRECISION_OPTIONS } from '@/utils/location';
 
-interface ScanHistoryItem {
-  id: string;
-  imageUrl: string;
-  species: string;
-  commonName: string;
-  isSafeToEat: boolean;
-  isSafeToTouch: boolean;
-  confidence: string;
-  createdAt: string;
+type ScanHistoryItem = Pick<
+  Scan,
+  'id' | 'imageUrl' | 'thumbnailUrl' | 'species' | 'commonName' | 'safety' | 'confidence' | 'presentation' | 'createdAt'
+>;
+
+interface HistoryFilters {
+  q?: string;
+  safeToEat?: boolean;
+  safeToTouch?: boolean;
+  confidence?: ScanConfidence;
 }
 
+const PAGE_SIZE = 20;
+
 export default function ProfileScreen() {
   console.log('ProfileScreen (iOS) rendered');
   console.log('Backend URL:', BACKEND_URL);
@@ -36,248 +45,363 @@ export default function ProfileScreen() {
   const colorScheme = useColorScheme();
   const theme = colors[colorScheme ?? 'light'];
   const { user, loading: authLoading, signOut } = useAuth();
+  const { lastSyncedAt } = useScanQueue();
   
   const [scanHistory, setScanHistory] = useState<ScanHistoryItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [filters, setFilters] = useState<HistoryFilters>({});
+  const [searchText, setSearchText] = useState('');
+  const [locationPrecision, setLocationPrecision] = useState<LocationPrecision | null>(null);
+  // Ignore responses from requests superseded by a newer filter change
+  const requestIdRef = useRef(0);
 
-  useEffect(() => {
-    if (user) {
-      loadScanHistory();
-    }
-  }, [user]);
-
-  const loadScanHistory = async () => {
+  const loadScanHistory = useCallback(async (cursor: string | null) => {
     if (!user) {
       console.log('User not authenticated, skipping scan history load');
       return;
     }
 
-    console.log('Loading scan history...');
-    setIsLoading(true);
-    
+    const requestId = ++requestIdRef.current;
+    console.log('Loading scan history page...', { cursor, filters });
+    if (cursor) {
+      setIsLoadingMore(true);
+    } else {
+      setIsLoading(true);
+    }
+
     try {
-      console.log('Fetching from:', `${BACKEND_URL}/api/scans`);
-      
-      const response = await fetch(`${BACKEND_URL}/api/scans`, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-      });
+      const data = await api.scans.list({ limit: PAGE_SIZE, cursor: cursor ?? undefined, ...filters });
+      console.log('Scan history page loaded:', data.scans.length);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Failed to load scan history:', response.status, errorText);
-        throw new Error(`Failed to load scan history: ${response.status}`);
+      if (requestId !== requestIdRef.current) {
+        console.log('Discarding stale scan history response');
+        return;
       }
 
-      const data = await response.json();
-      console.log('Scan history loaded:', data);
-      
-      // Map the response to our interface
-      const history: ScanHistoryItem[] = (data.scans || data || []).map((scan: any) => ({
-        id: scan.id,
-        imageUrl: scan.imageUrl,
-        species: scan.species,
-        commonName: scan.commonName,
-        isSafeToEat: scan.isSafeToEat,
-        isSafeToTouch: scan.isSafeToTouch,
-        confidence: scan.confidence,
-        createdAt: scan.createdAt,
-      }));
-      
-      setScanHistory(history);
-      setIsLoading(false);
+      const page: ScanHistoryItem[] = data.scans;
+      setScanHistory((current) => (cursor ? [...current, ...page] : page));
+      setNextCursor(data.nextCursor);
     } catch (error) {
       console.error('Error loading scan history:', error);
-      setIsLoading(false);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    }
+  }, [user, filters]);
+
+  // Also reloads when a scan from the offline queue reaches the server
+  useEffect(() => {
+    if (user) {
+      loadScanHistory(null);
+    }
+  }, [user, lastSyncedAt, loadScanHistory]);
+
+  useEffect(() => {
+    if (!user) {
+      setLocationPrecision(null);
+      return;
+    }
+
+    console.log('Loading user settings');
+    api.settings.get()
+      .then((settings) => setLocationPrecision(settings.locationPrecision))
+      .catch((error) => console.error('Failed to load settings:', error));
+  }, [user]);
+
+  const updateLocationPrecision = async (precision: LocationPrecision) => {
+    console.log('User changed location precision:', precision);
+    const previous = locationPrecision;
+    setLocationPrecision(precision);
+
+    try {
+      await api.settings.update({ locationPrecision: precision });
+    } catch (error) {
+      console.error('Failed to update location precision:', error);
+      setLocationPrecision(previous);
     }
   };
 
-  return (
-    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
-      <ScrollView 
-        contentContainerStyle={styles.scrollContent}
-        showsVerticalScrollIndicator={false}
-      >
-        {/* Header */}
-        <View style={styles.header}>
-          <IconSymbol 
-            ios_icon_name="clock.fill" 
-            android_material_icon_name="history" 
-            size={40} 
-            color={theme.primary} 
-          />
-          <Text style={[styles.title, { color: theme.text }]}>Scan History</Text>
-          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
-            View your past scans
-          </Text>
-        </View>
+  const loadMore = () => {
+    if (nextCursor && !isLoading && !isLoadingMore) {
+      console.log('Reached end of scan history, loading more');
+      loadScanHistory(nextCursor);
+    }
+  };
 
-        {/* Auth Status */}
-        {!authLoading && (
-          <View style={[styles.authCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
-            {user ? (
-              <>
-                <View style={styles.authInfo}>
-                  <IconSymbol 
-                    ios_icon_name="person.circle.fill" 
-                    android_material_icon_name="account-circle" 
-                    size={24} 
-                    color={theme.primary} 
-                  />
-                  <View style={styles.authTextContainer}>
-                    <Text style={[styles.authName, { color: theme.text }]}>
-                      {user.name || user.email}
-                    </Text>
-                    <Text style={[styles.authEmail, { color: theme.textSecondary }]}>
-                      {user.email}
-                    </Text>
-                  </View>
-                </View>
-                <TouchableOpacity 
-                  style={[styles.authButton, { backgroundColor: theme.danger }]}
-                  onPress={async () => {
-                    await signOut();
-                    setScanHistory([]);
-                  }}
-                >
-                  <Text style={styles.authButtonText}>Sign Out</Text>
-                </TouchableOpacity>
-              </>
-            ) : (
-              <>
-                <View style={styles.authInfo}>
-                  <IconSymbol 
-                    ios_icon_name="person.circle" 
-                    android_material_icon_name="account-circle" 
-                    size={24} 
-                    color={theme.textSecondary} 
-                  />
-                  <Text style={[styles.authText, { color: theme.textSecondary }]}>
-                    Sign in to view your scan history
-                  </Text>
-                </View>
-                <TouchableOpacity 
-                  style={[styles.authButton, { backgroundColor: theme.primary }]}
-                  onPress={() => router.push('/auth')}
-                >
-                  <Text style={styles.authButtonText}>Sign In</Text>
-                </TouchableOpacity>
-              </>
-            )}
-          </View>
-        )}
+  const toggleFilter = (key: 'safeToEat' | 'safeToTouch') => {
+    console.log('User toggled history filter:', key);
+    setFilters((current) => ({ ...current, [key]: current[key] ? undefined : true }));
+  };
+
+  const toggleHighConfidence = () => {
+    console.log('User toggled high confidence filter');
+    setFilters((current) => ({ ...current, confidence: current.confidence ? undefined : 'high' }));
+  };
 
-        {/* Loading State */}
-        {isLoading && (
-          <View style={styles.loadingContainer}>
-            <ActivityIndicator size="large" color={theme.primary} />
-          </View>
-        )}
+  const applySearch = () => {
+    console.log('User searched history:', searchText);
+    setFilters((current) => ({ ...current, q: searchText.trim() || undefined }));
+  };
 
-        {/* Empty State */}
-        {!isLoading && scanHistory.length === 0 && user && (
-          <View style={[styles.emptyContainer, { backgroundColor: theme.card }]}>
-            <IconSymbol 
-              ios_icon_name="tray.fill" 
-              android_material_icon_name="inbox" 
-              size={64} 
-              color={theme.textSecondary} 
-            />
-            <Text style={[styles.emptyTitle, { color: theme.text }]}>No Scans Yet</Text>
-            <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
-              Your scan history will appear here after you analyze flora and fauna
-            </Text>
-          </View>
-        )}
+  const filterChips = [
+    { label: 'Edible', active: !!filters.safeToEat, onPress: () => toggleFilter('safeToEat') },
+    { label: 'Safe to touch', active: !!filters.safeToTouch, onPress: () => toggleFilter('safeToTouch') },
+    { label: 'High confidence', active: filters.confidence === 'high', onPress: toggleHighConfidence },
+  ];
+  const hasFilters = Object.values(filters).some((value) => value !== undefined);
 
-        {/* History List */}
-        {!isLoading && scanHistory.length > 0 && (
-          <View style={styles.historyList}>
-            {scanHistory.map((item, index) => (
-              <React.Fragment key={item.id}>
-                <TouchableOpacity 
-                  style={[styles.historyItem, { backgroundColor: theme.card, borderColor: theme.border }]}
-                  onPress={() => console.log('Tapped history item:', item.id)}
-                >
-                  <Image source={{ uri: item.imageUrl }} style={styles.historyImage} />
+  const renderHistoryItem = ({ item }: { item: ScanHistoryItem }) => (
+    <TouchableOpacity 
+      style={[styles.historyItem, { backgroundColor: theme.card, borderColor: theme.border }]}
+      onPress={() => {
+        console.log('Tapped history item:', item.id);
+        router.push({ pathname: '/scan/[id]', params: { id: item.id } });
+      }}
+    >
+      <Image source={{ uri: item.thumbnailUrl }} style={styles.historyImage} />
                   
-                  <View style={styles.historyContent}>
-                    <Text style={[styles.historyTitle, { color: theme.text }]}>
-                      {item.commonName}
-                    </Text>
-                    <Text style={[styles.historySpecies, { color: theme.textSecondary }]}>
-                      {item.species}
-                    </Text>
+      <View style={styles.historyContent}>
+        <Text style={[styles.historyTitle, { color: theme.text }]}>
+          {item.commonName}
+        </Text>
+        <Text style={[styles.historySpecies, { color: theme.textSecondary }]}>
+          {item.species}
+        </Text>
                     
-                    <View style={styles.historyBadges}>
-                      <View style={[styles.historyBadge, { 
-                        backgroundColor: item.isSafeToEat ? theme.success + '20' : theme.danger + '20' 
-                      }]}>
-                        <IconSymbol 
-                          ios_icon_name={item.isSafeToEat ? 'checkmark' : 'xmark'}
-                          android_material_icon_name={item.isSafeToEat ? 'check' : 'close'}
-                          size={12} 
-                          color={item.isSafeToEat ? theme.success : theme.danger} 
-                        />
-                        <Text style={[styles.badgeText, { 
-                          color: item.isSafeToEat ? theme.success : theme.danger 
-                        }]}>
-                          Eat
+        <View style={styles.historyBadges}>
+          {SAFETY_ROUTES.map(({ key, shortLabel }) => {
+            const badgeColor = severityColor(presentedSafety(item.safety, item.presentation)[key].severity, theme);
+            return (
+              <View key={key} style={[styles.historyBadge, { backgroundColor: badgeColor + '20' }]}>
+                <View style={[styles.severityDot, { backgroundColor: badgeColor }]} />
+                <Text style={[styles.badgeText, { color: badgeColor }]}>
+                  {shortLabel}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      </View>
+                  
+      <IconSymbol 
+        ios_icon_name="chevron.right" 
+        android_material_icon_name="chevron-right" 
+        size={20} 
+        color={theme.textSecondary} 
+      />
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      <FlatList
+        data={scanHistory}
+        keyExtractor={(item) => item.id}
+        renderItem={renderHistoryItem}
+        contentContainerStyle={styles.scrollContent}
+        ItemSeparatorComponent={() => <View style={styles.historySeparator} />}
+        showsVerticalScrollIndicator={false}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          <>
+            {/* Header */}
+            <View style={styles.header}>
+              <IconSymbol 
+                ios_icon_name="clock.fill" 
+                android_material_icon_name="history" 
+                size={40} 
+                color={theme.primary} 
+              />
+              <Text style={[styles.title, { color: theme.text }]}>Scan History</Text>
+              <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+                View your past scans
+              </Text>
+            </View>
+
+            {/* Auth Status */}
+            {!authLoading && (
+              <View style={[styles.authCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                {user ? (
+                  <>
+                    <View style={styles.authInfo}>
+                      <IconSymbol 
+                        ios_icon_name="person.circle.fill" 
+                        android_material_icon_name="account-circle" 
+                        size={24} 
+                        color={theme.primary} 
+                      />
+                      <View style={styles.authTextContainer}>
+                        <Text style={[styles.authName, { color: theme.text }]}>
+                          {user.name || user.email}
                         </Text>
-                      </View>
-                      
-                      <View style={[styles.historyBadge, { 
-                        backgroundColor: item.isSafeToTouch ? theme.success + '20' : theme.danger + '20' 
-                      }]}>
-                        <IconSymbol 
-                          ios_icon_name={item.isSafeToTouch ? 'checkmark' : 'xmark'}
-                          android_material_icon_name={item.isSafeToTouch ? 'check' : 'close'}
-                          size={12} 
-                          color={item.isSafeToTouch ? theme.success : theme.danger} 
-                        />
-                        <Text style={[styles.badgeText, { 
-                          color: item.isSafeToTouch ? theme.success : theme.danger 
-                        }]}>
-                          Touch
+                        <Text style={[styles.authEmail, { color: theme.textSecondary }]}>
+                          {user.email}
                         </Text>
                       </View>
                     </View>
-                  </View>
-                  
+                    <TouchableOpacity 
+                      style={[styles.authButton, { backgroundColor: theme.danger }]}
+                      onPress={async () => {
+                        await signOut();
+                        setScanHistory([]);
+                      }}
+                    >
+                      <Text style={styles.authButtonText}>Sign Out</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <>
+                    <View style={styles.authInfo}>
+                      <IconSymbol 
+                        ios_icon_name="person.circle" 
+                        android_material_icon_name="account-circle" 
+                        size={24} 
+                        color={theme.textSecondary} 
+                      />
+                      <Text style={[styles.authText, { color: theme.textSecondary }]}>
+                        Sign in to view your scan history
+                      </Text>
+                    </View>
+                    <TouchableOpacity 
+                      style={[styles.authButton, { backgroundColor: theme.primary }]}
+                      onPress={() => router.push('/auth')}
+                    >
+                      <Text style={styles.authButtonText}>Sign In</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            )}
+
+            {/* Pending Uploads */}
+            {user && <PendingScansList />}
+
+            {/* Location Privacy */}
+            {user && locationPrecision && (
+              <View style={[styles.settingsCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+                <View style={styles.authInfo}>
                   <IconSymbol 
-                    ios_icon_name="chevron.right" 
-                    android_material_icon_name="chevron-right" 
+                    ios_icon_name="location.fill" 
+                    android_material_icon_name="place" 
                     size={20} 
-                    color={theme.textSecondary} 
+                    color={theme.primary} 
                   />
-                </TouchableOpacity>
-              </React.Fragment>
-            ))}
-          </View>
-        )}
+                  <Text style={[styles.settingsTitle, { color: theme.text }]}>Scan Location</Text>
+                </View>
+                <View style={styles.filterChips}>
+                  {LOCATION_PRECISION_OPTIONS.map((option) => {
+                    const active = option.value === locationPrecision;
+                    return (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[
+                          styles.filterChip,
+                          { borderColor: theme.primary, backgroundColor: active ? theme.primary : 'transparent' },
+                        ]}
+                        onPress={() => updateLocationPrecision(option.value)}
+                      >
+                        <Text style={[styles.filterChipText, { color: active ? '#FFFFFF' : theme.primary }]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <Text style={[styles.settingsDescription, { color: theme.textSecondary }]}>
+                  {LOCATION_PRECISION_OPTIONS.find((option) => option.value === locationPrecision)?.description}
+                </Text>
+              </View>
+            )}
 
-        {/* Info Section */}
-        <View style={[styles.infoCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
-          <IconSymbol 
-            ios_icon_name="lightbulb.fill" 
-            android_material_icon_name="lightbulb" 
-            size={24} 
-            color={theme.accent} 
-          />
-          <View style={styles.infoContent}>
-            <Text style={[styles.infoTitle, { color: theme.text }]}>Safety Tips</Text>
-            <Text style={[styles.infoText, { color: theme.textSecondary }]}>
-              - Always cross-reference with multiple sources{'\n'}
-              - Never consume anything you&apos;re not 100% sure about{'\n'}
-              - Some species have toxic look-alikes{'\n'}
-              - When in doubt, consult an expert
-            </Text>
-          </View>
-        </View>
-      </ScrollView>
+            {/* Filters */}
+            {user && (
+              <View style={styles.filterContainer}>
+                <TextInput
+                  style={[styles.searchInput, { backgroundColor: theme.card, borderColor: theme.border, color: theme.text }]}
+                  value={searchText}
+                  onChangeText={setSearchText}
+                  onSubmitEditing={applySearch}
+                  placeholder="Search by name"
+                  placeholderTextColor={theme.textSecondary}
+                  returnKeyType="search"
+                  autoCapitalize="none"
+                />
+                <View style={styles.filterChips}>
+                  {filterChips.map((chip) => (
+                    <TouchableOpacity
+                      key={chip.label}
+                      style={[
+                        styles.filterChip,
+                        { borderColor: theme.primary, backgroundColor: chip.active ? theme.primary : 'transparent' },
+                      ]}
+                      onPress={chip.onPress}
+                    >
+                      <Text style={[styles.filterChipText, { color: chip.active ? '#FFFFFF' : theme.primary }]}>
+                        {chip.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+          </>
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={theme.primary} />
+            </View>
+          ) : user ? (
+            <View style={[styles.emptyContainer, { backgroundColor: theme.card }]}>
+              <IconSymbol 
+                ios_icon_name="tray.fill" 
+                android_material_icon_name="inbox" 
+                size={64} 
+                color={theme.textSecondary} 
+              />
+              <Text style={[styles.emptyTitle, { color: theme.text }]}>{hasFilters ? 'No Matching Scans' : 'No Scans Yet'}</Text>
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                {hasFilters
+                  ? 'Try a different search or clear some filters'
+                  : 'Your scan history will appear here after you analyze flora and fauna'}
+              </Text>
+            </View>
+          ) : null
+        }
+        ListFooterComponent={
+          <>
+            {isLoadingMore && (
+              <View style={styles.loadingMoreContainer}>
+                <ActivityIndicator color={theme.primary} />
+              </View>
+            )}
+
+            {/* Info Section */}
+            <View style={[styles.infoCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+              <IconSymbol 
+                ios_icon_name="lightbulb.fill" 
+                android_material_icon_name="lightbulb" 
+                size={24} 
+                color={theme.accent} 
+              />
+              <View style={styles.infoContent}>
+                <Text style={[styles.infoTitle, { color: theme.text }]}>Safety Tips</Text>
+                <Text style={[styles.infoText, { color: theme.textSecondary }]}>
+                  - Always cross-reference with multiple sources{'\n'}
+                  - Never consume anything you&apos;re not 100% sure about{'\n'}
+                  - Some species have toxic look-alikes{'\n'}
+                  - When in doubt, consult an expert
+                </Text>
+              </View>
+            </View>
+          </>
+        }
+      />
     </SafeAreaView>
   );
 }
@@ -360,9 +484,54 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 22,
   },
-  historyList: {
+  historySeparator: {
+    height: 12,
+  },
+  loadingMoreContainer: {
+    paddingVertical: 20,
+    alignItems: 'center',
+  },
+  settingsCard: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 20,
     gap: 12,
   },
+  settingsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  settingsDescription: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  filterContainer: {
+    marginBottom: 16,
+    gap: 10,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  filterChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  filterChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   historyItem: {
     flexDirection: 'row',
     padding: 12,
@@ -391,6 +560,7 @@ const styles = StyleSheet.create({
   },
   historyBadges: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 6,
   },
   historyBadge: {
@@ -401,6 +571,11 @@ const styles = StyleSheet.create({
     borderRadius: 6,
     gap: 4,
   },
+  severityDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
   badgeText: {
     fontSize: 11,
     fontWeight: '600',
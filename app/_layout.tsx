@@ -16,6 +16,7 @@ import {
 import { StatusBar } from "expo-status-bar";
 import { WidgetProvider } from "@/contexts/WidgetContext";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { ScanQueueProvider } from "@/contexts/ScanQueueContext";
 // Note: Error logging is auto-initialized via index.ts import
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
@@ -85,6 +86,7 @@ export default function RootLayout() {
           value={colorScheme === "dark" ? CustomDarkTheme : CustomDefaultTheme}
         >
           <AuthProvider>
+            <ScanQueueProvider>
             <WidgetProvider>
               <GestureHandlerRootView>
               <Stack>
@@ -113,6 +115,23 @@ export default function RootLayout() {
                   }}
                 />
 
+                {/* Scan details, also opened via flora-fauna-scanner://scan/<id> */}
+                <Stack.Screen
+                  name="scan/[id]"
+                  options={{
+                    title: "Scan Details",
+                    headerBackTitle: "Back",
+                  }}
+                />
+
+                <Stack.Screen
+                  name="species/[id]"
+                  options={{
+                    title: "Species",
+                    headerBackTitle: "Back",
+                  }}
+                />
+
                 {/* Modal Demo Screens */}
                 <Stack.Screen
                   name="modal"
@@ -142,6 +161,7 @@ export default function RootLayout() {
               <SystemBars style={"auto"} />
               </GestureHandlerRootView>
             </WidgetProvider>
+            </ScanQueueProvider>
           </AuthProvider>
         </ThemeProvider>
     </>
@@ -0,0 +1,627 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Alert,
+  Modal,
+  useColorScheme,
+} from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import { ScanAnalysis, ScanDetail, api } from '@/utils/apiClient';
+import { ApiError } from '@/utils/api';
+import { waitForAnalysis } from '@/utils/scanQueue';
+import { useAuth } from '@/contexts/AuthContext';
+import { SafetyAssessmentList } from '@/components/SafetyAssessmentList';
+import { CitationList } from '@/components/CitationList';
+import { UncertainIdentificationBanner } from '@/components/UncertainIdentificationBanner';
+import { LookalikeWarningCard } from '@/components/LookalikeWarningCard';
+import { CandidateList } from '@/components/CandidateList';
+import { AnalysisHistoryList } from '@/components/AnalysisHistoryList';
+
+/**
+ * Full details of a single scan.
+ * Reachable from the scan history and via deep link: flora-fauna-scanner://scan/<id>
+ */
+export default function ScanDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  console.log('ScanDetailScreen rendered for scan:', id);
+
+  const colorScheme = useColorScheme();
+  const theme = colors[colorScheme ?? 'light'];
+  const { user, loading: authLoading } = useAuth();
+
+  const [scan, setScan] = useState<ScanDetail | null>(null);
+  const [analyses, setAnalyses] = useState<ScanAnalysis[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [analysisFailed, setAnalysisFailed] = useState(false);
+  const [lookalikesAcknowledged, setLookalikesAcknowledged] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState({ commonName: '', species: '', notes: '' });
+  const [isReanalyseFormOpen, setIsReanalyseFormOpen] = useState(false);
+  const [isReanalysing, setIsReanalysing] = useState(false);
+  const [hint, setHint] = useState('');
+  const [isPhotoOpen, setIsPhotoOpen] = useState(false);
+
+  const loadScan = useCallback(async () => {
+    if (!id) {
+      return;
+    }
+
+    console.log('Loading scan details:', id);
+    setIsLoading(true);
+    setError(null);
+    setAnalysisFailed(false);
+
+    try {
+      const [data, history] = await Promise.all([api.scans.get(id), api.scans.analyses(id)]);
+      if (data.status !== 'complete') {
+        console.log('Scan is not analysed yet:', data.status);
+        setScan(null);
+        setAnalysisFailed(data.status === 'failed');
+        setError(
+          data.status === 'failed'
+            ? 'This photo could not be analysed.'
+            : 'This scan is still being analysed. Try again in a moment.'
+        );
+        return;
+      }
+      setScan(data);
+      setAnalyses(history.analyses);
+      setLookalikesAcknowledged(!!data.lookalikeAcknowledgedAt);
+    } catch (err) {
+      console.error('Error loading scan details:', err);
+      setError('Could not load this scan. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (user) {
+      loadScan();
+    }
+  }, [user, loadScan]);
+
+  const acknowledgeLookalikes = async () => {
+    console.log('User acknowledged look-alike warnings for scan:', id);
+    setLookalikesAcknowledged(true);
+
+    try {
+      await api.scans.acknowledgeLookalikes(id);
+    } catch (err) {
+      console.error('Failed to record look-alike acknowledgement:', err);
+    }
+  };
+
+  const startEditing = () => {
+    if (!scan) {
+      return;
+    }
+    console.log('User started editing scan:', id);
+    setDraft({ commonName: scan.commonName, species: scan.species, notes: scan.notes || '' });
+    setIsEditing(true);
+  };
+
+  const saveEdits = async () => {
+    console.log('User saving scan edits:', id);
+    setIsSaving(true);
+
+    try {
+      const updated = await api.scans.update(id, {
+        commonName: draft.commonName.trim(),
+        species: draft.species.trim(),
+        notes: draft.notes.trim() || null,
+      });
+      setScan((current) => (current ? { ...current, ...updated, candidates: current.candidates } : current));
+      setIsEditing(false);
+    } catch (err) {
+      console.error('Error saving scan edits:', err);
+      Alert.alert('Error', 'Failed to save your changes. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reanalyse = async () => {
+    console.log('User requested re-analysis of scan:', id, hint ? 'with hint' : 'without hint');
+    setIsReanalysing(true);
+
+    try {
+      await api.scans.reanalyze(id, { hint: hint.trim() || undefined });
+      setIsReanalyseFormOpen(false);
+      setHint('');
+
+      const result = await waitForAnalysis(id);
+      console.log('Re-analysis finished waiting:', result.status, result.status === 'complete' ? result.reanalysisStatus : null);
+      if (result.status === 'failed' || (result.status === 'complete' && result.reanalysisStatus === 'failed')) {
+        Alert.alert('Analysis Failed', 'The photo could not be analysed again. Please try later.');
+      } else if (result.status !== 'complete' || result.reanalysisStatus) {
+        Alert.alert('Still Analyzing', 'The new analysis is taking a while. Check back in a moment.');
+      }
+      await loadScan();
+    } catch (err) {
+      console.error('Error re-analysing scan:', err);
+      const message = err instanceof ApiError && err.code === 'analysis_in_progress'
+        ? 'This scan is already being analysed.'
+        : 'Failed to start a new analysis. Please try again.';
+      Alert.alert('Error', message);
+    } finally {
+      setIsReanalysing(false);
+    }
+  };
+
+  const deleteScan = () => {
+    console.log('User tapped Delete for scan:', id);
+    Alert.alert(
+      'Delete Scan',
+      'This permanently removes the scan and its photo.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await api.scans.delete(id);
+              console.log('Scan deleted:', id);
+              router.back();
+            } catch (err) {
+              console.error('Error deleting scan:', err);
+              Alert.alert('Error', 'Failed to delete scan. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderContent = () => {
+    if (authLoading || isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      );
+    }
+
+    if (!user) {
+      return (
+        <View style={styles.centered}>
+          <Text style={[styles.messageText, { color: theme.textSecondary }]}>
+            Sign in to view this scan
+          </Text>
+          <TouchableOpacity
+            style={[styles.messageButton, { backgroundColor: theme.primary }]}
+            onPress={() => router.push('/auth')}
+          >
+            <Text style={styles.messageButtonText}>Sign In</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (error || !scan) {
+      return (
+        <View style={styles.centered}>
+          <Text style={[styles.messageText, { color: theme.textSecondary }]}>
+            {error || 'Scan not found'}
+          </Text>
+          <TouchableOpacity
+            style={[styles.messageButton, { backgroundColor: theme.primary }]}
+            onPress={analysisFailed ? reanalyse : loadScan}
+            disabled={isReanalysing}
+          >
+            {isReanalysing ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.messageButtonText}>{analysisFailed ? 'Analyse Again' : 'Retry'}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    const showSafety = scan.lookalikeWarnings.length === 0 || lookalikesAcknowledged;
+    const reanalysisRunning = isReanalysing || scan.reanalysisStatus === 'pending' || scan.reanalysisStatus === 'analysing';
+
+    return (
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <TouchableOpacity onPress={() => setIsPhotoOpen(true)} activeOpacity={0.8} accessibilityLabel="View full-size photo">
+          <Image source={{ uri: scan.mediumUrl }} style={styles.image} resizeMode="contain" />
+        </TouchableOpacity>
+
+        {/* The original upload, at full resolution, for checking details the preview loses */}
+        <Modal visible={isPhotoOpen} animationType="fade" onRequestClose={() => setIsPhotoOpen(false)}>
+          <TouchableOpacity
+            style={styles.fullImageBackdrop}
+            onPress={() => setIsPhotoOpen(false)}
+            activeOpacity={1}
+            accessibilityLabel="Close full-size photo"
+          >
+            <Image source={{ uri: scan.imageUrl }} style={styles.fullImage} resizeMode="contain" />
+          </TouchableOpacity>
+        </Modal>
+
+        {(reanalysisRunning || scan.reanalysisStatus === 'failed') && (
+          <View style={[styles.reanalysisBanner, { backgroundColor: theme.highlight }]}>
+            {reanalysisRunning && <ActivityIndicator size="small" color={theme.primary} />}
+            <Text style={[styles.reanalysisText, { color: theme.text }]}>
+              {reanalysisRunning
+                ? 'Analysing this photo again. The current result stays until the new one is ready.'
+                : 'The last re-analysis failed. You can try again.'}
+            </Text>
+          </View>
+        )}
+
+        <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          {isEditing ? (
+            <View style={styles.editForm}>
+              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Common Name</Text>
+              <TextInput
+                style={[styles.input, { color: theme.text, borderColor: theme.border }]}
+                value={draft.commonName}
+                onChangeText={(commonName) => setDraft((current) => ({ ...current, commonName }))}
+              />
+              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Scientific Name</Text>
+              <TextInput
+                style={[styles.input, { color: theme.text, borderColor: theme.border, fontStyle: 'italic' }]}
+                value={draft.species}
+                autoCapitalize="none"
+                onChangeText={(species) => setDraft((current) => ({ ...current, species }))}
+              />
+              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.notesInput, { color: theme.text, borderColor: theme.border }]}
+                value={draft.notes}
+                multiline
+                placeholder="Where you found it, what it smelled like…"
+                placeholderTextColor={theme.textSecondary}
+                onChangeText={(notes) => setDraft((current) => ({ ...current, notes }))}
+              />
+              <View style={styles.actionRow}>
+                <TouchableOpacity
+                  style={[styles.actionButton, { backgroundColor: theme.border }]}
+                  onPress={() => setIsEditing(false)}
+                  disabled={isSaving}
+                >
+                  <Text style={[styles.actionButtonText, { color: theme.text }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, { backgroundColor: theme.primary }]}
+                  onPress={saveEdits}
+                  disabled={isSaving || !draft.commonName.trim() || !draft.species.trim()}
+                >
+                  {isSaving ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.actionButtonText}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <>
+              <Text style={[styles.commonName, { color: theme.text }]}>{scan.commonName}</Text>
+              <Text style={[styles.species, { color: theme.textSecondary }]}>{scan.species}</Text>
+              {(scan.nameMatch === 'synonym' || scan.nameMatch === 'fuzzy') && (
+                <Text style={[styles.nameMatch, { color: theme.textSecondary }]}>
+                  {scan.nameMatch === 'synonym' ? 'Now accepted as ' : 'Closest known name: '}
+                  <Text style={{ fontStyle: 'italic' }}>{scan.acceptedName}</Text>
+                </Text>
+              )}
+              {!!scan.speciesId && (
+                <TouchableOpacity
+                  onPress={() => router.push({ pathname: '/species/[id]', params: { id: scan.speciesId! } })}
+                >
+                  <Text style={[styles.speciesLink, { color: theme.primary }]}>About this species</Text>
+                </TouchableOpacity>
+              )}
+              {!!scan.correctedAt && (
+                <Text style={[styles.correction, { color: theme.textSecondary }]}>
+                  Corrected by you. Originally identified as {scan.originalAnalysis.commonName} (
+                  <Text style={{ fontStyle: 'italic' }}>{scan.originalAnalysis.species}</Text>)
+                </Text>
+              )}
+            </>
+          )}
+          <Text style={[styles.date, { color: theme.textSecondary }]}>
+            Scanned {new Date(scan.createdAt).toLocaleString()}
+          </Text>
+
+          {!isEditing && !!scan.notes && (
+            <View style={[styles.notesContainer, { backgroundColor: theme.highlight }]}>
+              <Text style={[styles.descriptionLabel, { color: theme.textSecondary }]}>Your notes:</Text>
+              <Text style={[styles.descriptionText, { color: theme.text }]}>{scan.notes}</Text>
+            </View>
+          )}
+
+          <UncertainIdentificationBanner presentation={scan.presentation} />
+
+          {scan.lookalikeWarnings.length > 0 && (
+            <LookalikeWarningCard
+              warnings={scan.lookalikeWarnings}
+              acknowledged={lookalikesAcknowledged}
+              onAcknowledge={acknowledgeLookalikes}
+            />
+          )}
+
+          {showSafety && (
+            <SafetyAssessmentList
+              safety={scan.safety}
+              edibility={scan.edibility}
+              sources={scan.safetySources}
+              conflicts={scan.safetyConflicts}
+              citations={scan.safetyCitations}
+              presentation={scan.presentation}
+            />
+          )}
+
+          <View style={[styles.confidenceBadge, { backgroundColor: theme.highlight }]}>
+            <Text style={[styles.confidenceText, { color: theme.primary }]}>
+              Confidence: {scan.confidence.toUpperCase()}
+            </Text>
+          </View>
+
+          {!!scan.warnings && (
+            <View style={[styles.warningContainer, { backgroundColor: theme.warning + '20', borderColor: theme.warning }]}>
+              <IconSymbol
+                ios_icon_name="exclamationmark.triangle.fill"
+                android_material_icon_name="warning"
+                size={20}
+                color={theme.warning}
+              />
+              <Text style={[styles.warningText, { color: theme.text }]}>{scan.warnings}</Text>
+            </View>
+          )}
+          {!!scan.warnings && <CitationList citations={scan.safetyCitations.warnings} />}
+
+          <Text style={[styles.descriptionLabel, { color: theme.textSecondary }]}>Description:</Text>
+          <Text style={[styles.descriptionText, { color: theme.text }]}>{scan.description}</Text>
+
+          <CandidateList candidates={scan.candidates} />
+        </View>
+
+        {isReanalyseFormOpen && (
+          <View style={[styles.card, styles.reanalyseForm, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>What do you know about it? (optional)</Text>
+            <TextInput
+              style={[styles.input, { color: theme.text, borderColor: theme.border }]}
+              value={hint}
+              maxLength={500}
+              placeholder="It's a mushroom, grew on oak"
+              placeholderTextColor={theme.textSecondary}
+              onChangeText={setHint}
+            />
+            <View style={styles.actionRow}>
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: theme.border }]}
+                onPress={() => setIsReanalyseFormOpen(false)}
+                disabled={isReanalysing}
+              >
+                <Text style={[styles.actionButtonText, { color: theme.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: theme.primary }]}
+                onPress={reanalyse}
+                disabled={isReanalysing}
+              >
+                {isReanalysing ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.actionButtonText}>Analyse</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {!isEditing && !isReanalyseFormOpen && (
+          <View style={styles.actionRow}>
+            <TouchableOpacity style={[styles.actionButton, { backgroundColor: theme.primary }]} onPress={startEditing}>
+              <IconSymbol ios_icon_name="pencil" android_material_icon_name="edit" size={18} color="#FFFFFF" />
+              <Text style={styles.actionButtonText}>Edit</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.secondary }]}
+              onPress={() => setIsReanalyseFormOpen(true)}
+              disabled={reanalysisRunning}
+            >
+              <IconSymbol ios_icon_name="arrow.clockwise" android_material_icon_name="refresh" size={18} color="#FFFFFF" />
+              <Text style={styles.actionButtonText}>Re-analyse</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.actionButton, { backgroundColor: theme.danger }]} onPress={deleteScan}>
+              <IconSymbol ios_icon_name="trash.fill" android_material_icon_name="delete" size={18} color="#FFFFFF" />
+              <Text style={styles.actionButtonText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <AnalysisHistoryList analyses={analyses} />
+      </ScrollView>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <Stack.Screen options={{ title: scan?.commonName || 'Scan Details' }} />
+      {renderContent()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  messageText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  messageButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  messageButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 4 / 3,
+    borderRadius: 16,
+    marginBottom: 20,
+  },
+  fullImageBackdrop: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  fullImage: {
+    flex: 1,
+  },
+  card: {
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  commonName: {
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  species: {
+    fontSize: 16,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  nameMatch: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  speciesLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  correction: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  date: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  notesContainer: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+  },
+  editForm: {
+    gap: 6,
+  },
+  inputLabel: {
+    fontSize: 13,
+    marginTop: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  reanalysisBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    gap: 10,
+    marginBottom: 16,
+  },
+  reanalysisText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  reanalyseForm: {
+    marginTop: 16,
+    gap: 6,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 14,
+    borderRadius: 12,
+    gap: 8,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  confidenceBadge: {
+    padding: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  confidenceText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  warningContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 8,
+    marginBottom: 12,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  descriptionLabel: {
+    fontSize: 14,
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  descriptionText: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+});
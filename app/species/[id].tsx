@@ -0,0 +1,253 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { colors } from '@/styles/commonStyles';
+import { Species, TaxonomicRanks, api } from '@/utils/apiClient';
+import { useAuth } from '@/contexts/AuthContext';
+import { SafetyAssessmentList } from '@/components/SafetyAssessmentList';
+
+const RANKS: { key: keyof TaxonomicRanks; label: string }[] = [
+  { key: 'kingdom', label: 'Kingdom' },
+  { key: 'phylum', label: 'Phylum' },
+  { key: 'class', label: 'Class' },
+  { key: 'order', label: 'Order' },
+  { key: 'family', label: 'Family' },
+  { key: 'genus', label: 'Genus' },
+];
+
+/**
+ * A species from the catalog: names, taxonomy and curated safety data.
+ * Opened from a scan whose species the catalog knows.
+ */
+export default function SpeciesScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  console.log('SpeciesScreen rendered for species:', id);
+
+  const colorScheme = useColorScheme();
+  const theme = colors[colorScheme ?? 'light'];
+  const { user, loading: authLoading } = useAuth();
+
+  const [species, setSpecies] = useState<Species | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSpecies = useCallback(async () => {
+    if (!id) {
+      return;
+    }
+
+    console.log('Loading species:', id);
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setSpecies(await api.species.get(id));
+    } catch (err) {
+      console.error('Error loading species:', err);
+      setError('Could not load this species. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (user) {
+      loadSpecies();
+    }
+  }, [user, loadSpecies]);
+
+  const renderContent = () => {
+    if (authLoading || isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      );
+    }
+
+    if (!user) {
+      return (
+        <View style={styles.centered}>
+          <Text style={[styles.messageText, { color: theme.textSecondary }]}>
+            Sign in to view this species
+          </Text>
+          <TouchableOpacity
+            style={[styles.messageButton, { backgroundColor: theme.primary }]}
+            onPress={() => router.push('/auth')}
+          >
+            <Text style={styles.messageButtonText}>Sign In</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (error || !species) {
+      return (
+        <View style={styles.centered}>
+          <Text style={[styles.messageText, { color: theme.textSecondary }]}>
+            {error || 'Species not found'}
+          </Text>
+          <TouchableOpacity
+            style={[styles.messageButton, { backgroundColor: theme.primary }]}
+            onPress={loadSpecies}
+          >
+            <Text style={styles.messageButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    const [preferredName, ...otherNames] = species.commonNames.en ?? [];
+    const otherLocales = Object.entries(species.commonNames).filter(([locale]) => locale !== 'en');
+    const ranks = RANKS.filter(({ key }) => !!species.ranks[key]);
+
+    return (
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Text style={[styles.commonName, { color: theme.text }]}>{preferredName || species.scientificName}</Text>
+          <Text style={[styles.scientificName, { color: theme.textSecondary }]}>{species.scientificName}</Text>
+          <Text style={[styles.scanCount, { color: theme.textSecondary }]}>
+            {species.scanCount === 1 ? 'You have scanned this once' : `You have scanned this ${species.scanCount} times`}
+          </Text>
+
+          {(otherNames.length > 0 || otherLocales.length > 0) && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.textSecondary }]}>Also known as</Text>
+              {otherNames.length > 0 && (
+                <Text style={[styles.sectionText, { color: theme.text }]}>{otherNames.join(', ')}</Text>
+              )}
+              {otherLocales.map(([locale, names]) => (
+                <Text key={locale} style={[styles.sectionText, { color: theme.text }]}>
+                  {locale.toUpperCase()}: {names.join(', ')}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          {species.synonyms.length > 0 && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.textSecondary }]}>Synonyms</Text>
+              <Text style={[styles.sectionText, styles.italic, { color: theme.text }]}>
+                {species.synonyms.join(', ')}
+              </Text>
+            </View>
+          )}
+
+          {ranks.length > 0 && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionLabel, { color: theme.textSecondary }]}>Taxonomy</Text>
+              {ranks.map(({ key, label }) => (
+                <View key={key} style={styles.rankRow}>
+                  <Text style={[styles.rankLabel, { color: theme.textSecondary }]}>{label}</Text>
+                  <Text style={[styles.sectionText, { color: theme.text }]}>{species.ranks[key]}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+
+        <View style={[styles.card, styles.safetyCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Text style={[styles.sectionLabel, { color: theme.textSecondary }]}>Safety</Text>
+          {species.safety ? (
+            <SafetyAssessmentList safety={species.safety} />
+          ) : (
+            <Text style={[styles.sectionText, { color: theme.text }]}>
+              No reviewed safety information yet. Check each scan's own assessment.
+            </Text>
+          )}
+        </View>
+      </ScrollView>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <Stack.Screen options={{ title: species?.commonNames.en?.[0] || species?.scientificName || 'Species' }} />
+      {renderContent()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  messageText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  messageButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  messageButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  card: {
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  safetyCard: {
+    marginTop: 16,
+  },
+  commonName: {
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  scientificName: {
+    fontSize: 16,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  scanCount: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  section: {
+    marginTop: 16,
+    gap: 4,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    marginBottom: 2,
+  },
+  sectionText: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  rankRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rankLabel: {
+    width: 72,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+});
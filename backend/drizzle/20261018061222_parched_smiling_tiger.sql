@@ -0,0 +1,2 @@
+ALTER TABLE "scans" ADD COLUMN "provider" text DEFAULT 'gateway' NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "model" text DEFAULT 'openai/gpt-4o' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "scan_candidates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scan_id" uuid NOT NULL,
+	"rank" integer NOT NULL,
+	"species" text NOT NULL,
+	"common_name" text NOT NULL,
+	"confidence" text NOT NULL,
+	"distinguishing_features" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scan_candidates" ADD CONSTRAINT "scan_candidates_scan_id_scans_id_fk" FOREIGN KEY ("scan_id") REFERENCES "public"."scans"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scan_candidates_scan_id_idx" ON "scan_candidates" USING btree ("scan_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "scans" ADD COLUMN "edibility" text DEFAULT 'unverified' NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "lookalike_warnings" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "lookalike_acknowledged_at" timestamp;--> statement-breakpoint
+UPDATE "scans" SET "edibility" = CASE WHEN "is_safe_to_eat" THEN 'unverified' ELSE 'unsafe' END;
\ No newline at end of file
@@ -0,0 +1,13 @@
+ALTER TABLE "scans" ADD COLUMN "safety" jsonb;--> statement-breakpoint
+UPDATE "scans" SET "safety" = jsonb_build_object(
+	'ingestion', CASE WHEN "edibility" = 'unverified'
+		THEN '{"severity":"unknown","conditions":[],"notes":"Edibility unverified: toxic look-alikes were not ruled out."}'::jsonb
+		ELSE jsonb_build_object('severity', CASE WHEN "is_safe_to_eat" THEN 'safe' ELSE 'harmful' END, 'conditions', '[]'::jsonb, 'notes', 'Migrated from a yes/no safety flag') END,
+	'skinContact', jsonb_build_object('severity', CASE WHEN "is_safe_to_touch" THEN 'safe' ELSE 'harmful' END, 'conditions', '[]'::jsonb, 'notes', 'Migrated from a yes/no safety flag'),
+	'inhalation', '{"severity":"unknown","conditions":[],"notes":"Not assessed before graded safety was introduced"}'::jsonb,
+	'pets', '{"severity":"unknown","conditions":[],"notes":"Not assessed before graded safety was introduced"}'::jsonb,
+	'children', '{"severity":"unknown","conditions":[],"notes":"Not assessed before graded safety was introduced"}'::jsonb
+);--> statement-breakpoint
+ALTER TABLE "scans" ALTER COLUMN "safety" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" DROP COLUMN "is_safe_to_eat";--> statement-breakpoint
+ALTER TABLE "scans" DROP COLUMN "is_safe_to_touch";
\ No newline at end of file
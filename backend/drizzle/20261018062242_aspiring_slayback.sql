@@ -0,0 +1,22 @@
+ALTER TABLE "scans" ADD COLUMN "original_analysis" jsonb;--> statement-breakpoint
+UPDATE "scans" SET "original_analysis" = jsonb_build_object(
+	'species', "species",
+	'commonName', "common_name",
+	'safety', "safety",
+	'confidence', "confidence",
+	'warnings', "warnings",
+	'description', "description",
+	'candidates', COALESCE((
+		SELECT jsonb_agg(jsonb_build_object(
+			'species', c."species",
+			'commonName', c."common_name",
+			'confidence', c."confidence",
+			'distinguishingFeatures', c."distinguishing_features"
+		) ORDER BY c."rank")
+		FROM "scan_candidates" c
+		WHERE c."scan_id" = "scans"."id"
+	), '[]'::jsonb)
+);--> statement-breakpoint
+ALTER TABLE "scans" ALTER COLUMN "original_analysis" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "corrected_at" timestamp;
\ No newline at end of file
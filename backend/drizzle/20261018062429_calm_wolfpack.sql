@@ -0,0 +1,3 @@
+ALTER TABLE "scans" ALTER COLUMN "created_at" SET DATA TYPE timestamp (3);--> statement-breakpoint
+ALTER TABLE "scans" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+CREATE INDEX "scans_user_created_at_id_idx" ON "scans" USING btree ("user_id","created_at" DESC NULLS LAST,"id" DESC NULLS LAST);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "scans" DROP COLUMN "image_url";
\ No newline at end of file
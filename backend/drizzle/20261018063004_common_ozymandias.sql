@@ -0,0 +1,2 @@
+ALTER TABLE "scans" ADD COLUMN "thumbnail_key" text;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "medium_key" text;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "user_settings" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"location_precision" text DEFAULT 'approximate' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "location_source" text;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scans_location_idx" ON "scans" USING gist (point("longitude", "latitude"));
\ No newline at end of file
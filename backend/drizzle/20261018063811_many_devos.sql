@@ -0,0 +1,2 @@
+ALTER TABLE "scans" ADD COLUMN "client_scan_id" uuid;--> statement-breakpoint
+CREATE UNIQUE INDEX "scans_user_client_scan_id_idx" ON "scans" USING btree ("user_id","client_scan_id");
\ No newline at end of file
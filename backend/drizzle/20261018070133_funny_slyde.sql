@@ -0,0 +1,24 @@
+CREATE TABLE "analysis_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scan_id" uuid NOT NULL,
+	"mime_type" text NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"run_at" timestamp (3) DEFAULT now() NOT NULL,
+	"locked_at" timestamp (3),
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scans" ALTER COLUMN "species" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ALTER COLUMN "common_name" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ALTER COLUMN "safety" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ALTER COLUMN "confidence" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ALTER COLUMN "warnings" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ALTER COLUMN "description" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ALTER COLUMN "original_analysis" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "status" text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+UPDATE "scans" SET "status" = 'complete';--> statement-breakpoint
+ALTER TABLE "analysis_jobs" ADD CONSTRAINT "analysis_jobs_scan_id_scans_id_fk" FOREIGN KEY ("scan_id") REFERENCES "public"."scans"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "analysis_jobs_scan_id_idx" ON "analysis_jobs" USING btree ("scan_id");--> statement-breakpoint
+CREATE INDEX "analysis_jobs_status_run_at_idx" ON "analysis_jobs" USING btree ("status","run_at");
\ No newline at end of file
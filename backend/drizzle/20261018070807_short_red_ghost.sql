@@ -0,0 +1,19 @@
+CREATE TABLE "scan_analyses" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scan_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"hint" text,
+	"analysis" jsonb NOT NULL,
+	"edibility" text NOT NULL,
+	"lookalike_warnings" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp (3) DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "analysis_jobs" ADD COLUMN "hint" text;--> statement-breakpoint
+ALTER TABLE "scan_analyses" ADD CONSTRAINT "scan_analyses_scan_id_scans_id_fk" FOREIGN KEY ("scan_id") REFERENCES "public"."scans"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "scan_analyses_scan_id_version_idx" ON "scan_analyses" USING btree ("scan_id","version");--> statement-breakpoint
+INSERT INTO "scan_analyses" ("scan_id", "version", "provider", "model", "analysis", "edibility", "lookalike_warnings", "created_at")
+SELECT "id", 1, "provider", "model", "original_analysis", "edibility", "lookalike_warnings", "created_at"
+FROM "scans" WHERE "original_analysis" IS NOT NULL;
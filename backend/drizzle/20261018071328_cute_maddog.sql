@@ -0,0 +1,14 @@
+CREATE TABLE "species" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scientific_name" text NOT NULL,
+	"synonyms" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"ranks" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"common_names" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"safety" jsonb,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "species_id" uuid;--> statement-breakpoint
+CREATE UNIQUE INDEX "species_scientific_name_idx" ON "species" USING btree ("scientific_name");--> statement-breakpoint
+ALTER TABLE "scans" ADD CONSTRAINT "scans_species_id_species_id_fk" FOREIGN KEY ("species_id") REFERENCES "public"."species"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scans_species_id_idx" ON "scans" USING btree ("species_id");
\ No newline at end of file
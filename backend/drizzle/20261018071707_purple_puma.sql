@@ -0,0 +1,2 @@
+ALTER TABLE "scans" ADD COLUMN "accepted_name" text;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "name_match" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "scans" ADD COLUMN "safety_sources" jsonb DEFAULT '{"ingestion":"model","skinContact":"model","inhalation":"model","pets":"model","children":"model"}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "safety_conflicts" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "scans" ADD COLUMN "safety_dataset_version" integer;
\ No newline at end of file
@@ -0,0 +1,23 @@
+ALTER TABLE "scans" ADD COLUMN "safety_citations" jsonb;--> statement-breakpoint
+UPDATE "scans" SET "safety_citations" = jsonb_build_object(
+  'ingestion', CASE WHEN "safety_sources"->>'ingestion' = 'curated'
+    THEN jsonb_build_array(jsonb_build_object('kind', 'dataset', 'species', "accepted_name", 'route', 'ingestion', 'datasetVersion', "safety_dataset_version"))
+    ELSE jsonb_build_array(jsonb_build_object('kind', 'model', 'provider', "provider", 'model', "model")) END || (
+    SELECT coalesce(jsonb_agg(jsonb_build_object('kind', 'lookalike', 'edibleSpecies', w->>'edibleSpecies', 'lookalikeSpecies', w->>'lookalikeSpecies')), '[]'::jsonb)
+    FROM jsonb_array_elements("lookalike_warnings") AS w
+  ),
+  'skinContact', CASE WHEN "safety_sources"->>'skinContact' = 'curated'
+    THEN jsonb_build_array(jsonb_build_object('kind', 'dataset', 'species', "accepted_name", 'route', 'skinContact', 'datasetVersion', "safety_dataset_version"))
+    ELSE jsonb_build_array(jsonb_build_object('kind', 'model', 'provider', "provider", 'model', "model")) END,
+  'inhalation', CASE WHEN "safety_sources"->>'inhalation' = 'curated'
+    THEN jsonb_build_array(jsonb_build_object('kind', 'dataset', 'species', "accepted_name", 'route', 'inhalation', 'datasetVersion', "safety_dataset_version"))
+    ELSE jsonb_build_array(jsonb_build_object('kind', 'model', 'provider', "provider", 'model', "model")) END,
+  'pets', CASE WHEN "safety_sources"->>'pets' = 'curated'
+    THEN jsonb_build_array(jsonb_build_object('kind', 'dataset', 'species', "accepted_name", 'route', 'pets', 'datasetVersion', "safety_dataset_version"))
+    ELSE jsonb_build_array(jsonb_build_object('kind', 'model', 'provider', "provider", 'model', "model")) END,
+  'children', CASE WHEN "safety_sources"->>'children' = 'curated'
+    THEN jsonb_build_array(jsonb_build_object('kind', 'dataset', 'species', "accepted_name", 'route', 'children', 'datasetVersion', "safety_dataset_version"))
+    ELSE jsonb_build_array(jsonb_build_object('kind', 'model', 'provider', "provider", 'model', "model")) END,
+  'warnings', jsonb_build_array(jsonb_build_object('kind', 'model', 'provider', "provider", 'model', "model"))
+)
+WHERE "status" = 'complete';
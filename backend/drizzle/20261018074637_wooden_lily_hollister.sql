@@ -0,0 +1 @@
+ALTER TABLE "scans" ADD COLUMN "resolution_revision" text;
\ No newline at end of file
@@ -0,0 +1,10 @@
+ALTER TABLE "scan_analyses" ADD COLUMN "correction" jsonb;--> statement-breakpoint
+UPDATE "scan_analyses" SET "correction" = jsonb_build_object(
+	'species', "scans"."species",
+	'commonName', "scans"."common_name",
+	'correctedAt', to_char("scans"."corrected_at", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+)
+FROM "scans"
+WHERE "scans"."id" = "scan_analyses"."scan_id"
+	AND "scans"."corrected_at" IS NOT NULL
+	AND "scan_analyses"."version" = (SELECT max("version") FROM "scan_analyses" AS "latest" WHERE "latest"."scan_id" = "scans"."id");
@@ -0,0 +1,298 @@
+import { EventEmitter } from 'node:events';
+import { and, eq, max, ne } from 'drizzle-orm';
+import type { App } from '../index.js';
+import * as schema from '../db/schema.js';
+import {
+  claimAnalysisJob,
+  failAnalysisJob,
+  finishAnalysisJob,
+  requeueStaleAnalysisJobs,
+  type AnalysisJob,
+} from '../db/analysis-jobs.js';
+import type { UploadProgressEvent } from '../contracts/scans.js';
+import type { IdentificationProvider } from '../identification/types.js';
+import { assessSafety } from '../safety/assess.js';
+import { resolveScanSpecies } from '../species/catalog.js';
+
+// How often an idle worker looks for due jobs
+const POLL_INTERVAL_MS = 2000;
+
+// Events a scan's analysis goes through, as forwarded to a streaming upload
+export type AnalysisEvent = Extract<
+  UploadProgressEvent,
+  { stage: 'analysing' | 'partial' | 'complete' | 'retrying' | 'failed' }
+>;
+
+export interface AnalysisWorker {
+  readonly provider: IdentificationProvider;
+  /** Start polling for jobs */
+  start(): void;
+  /** Stop polling and wait for the jobs in progress */
+  stop(): Promise<void>;
+  /** Look for jobs now rather than at the next poll, e.g. right after enqueueing one */
+  wake(): void;
+  /** Follow the analysis of one scan; returns a function that stops listening */
+  subscribe(scanId: string, listener: (event: AnalysisEvent) => void): () => void;
+}
+
+/**
+ * In-process worker for the analysis job queue. Up to `concurrency` loops
+ * claim due jobs until none are left, then wait for the next poll. Failed
+ * attempts go back to the queue with backoff.
+ */
+export function createAnalysisWorker(
+  app: App,
+  provider: IdentificationProvider,
+  concurrency: number = Number(process.env.ANALYSIS_CONCURRENCY) || 2
+): AnalysisWorker {
+  const events = new EventEmitter();
+  // One listener per streaming upload
+  events.setMaxListeners(0);
+
+  let running = false;
+  let timer: NodeJS.Timeout | null = null;
+  const loops = new Set<Promise<void>>();
+
+  const emit = (scanId: string, event: AnalysisEvent) => events.emit(scanId, event);
+
+  // The provider reads the image back from storage, so any worker can take any job
+  const downloadImage = async (key: string): Promise<Buffer> => {
+    const { url } = await app.storage.getSignedUrl(key);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${key}: ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  };
+
+  const analyse = async (job: AnalysisJob) => {
+    const scan = await app.db.query.scans.findFirst({ where: eq(schema.scans.id, job.scanId) });
+    if (!scan) {
+      // Deleting a scan cascades to its job, so this only happens mid-claim
+      await finishAnalysisJob(app.db, job.id);
+      return;
+    }
+
+    // A re-analysis leaves the scan showing its current analysis until the new one is saved
+    const reanalysis = scan.status === 'complete';
+    if (!reanalysis) {
+      await app.db.update(schema.scans).set({ status: 'analysing' }).where(eq(schema.scans.id, scan.id));
+    }
+    emit(scan.id, { stage: 'analysing' });
+
+    app.logger.info(
+      { scanId: scan.id, attempt: job.attempts, reanalysis, provider: provider.name, model: provider.model },
+      'Analyzing image'
+    );
+
+    const image = await downloadImage(scan.imageKey);
+
+    // Token-level updates often leave every text field unchanged; only send real changes
+    let lastPartial = '';
+    const identified = await provider.identify(image, job.mimeType, {
+      hint: job.hint ?? undefined,
+      onPartial: (partial) => {
+        const serialized = JSON.stringify(partial);
+        if (serialized !== lastPartial) {
+          lastPartial = serialized;
+          emit(scan.id, { stage: 'partial', analysis: partial });
+        }
+      },
+    });
+
+    app.logger.info(
+      { scanId: scan.id, species: identified.species, confidence: identified.confidence },
+      'AI analysis completed'
+    );
+
+    const resolution = await resolveScanSpecies(app, identified.species);
+    const { analysis, scanSafety } = assessSafety(identified, resolution, {
+      provider: provider.name,
+      model: provider.model,
+    });
+    if (scanSafety.safetyConflicts.length > 0) {
+      app.logger.warn(
+        { scanId: scan.id, species: resolution.acceptedName, conflicts: scanSafety.safetyConflicts },
+        'Model safety verdicts contradict the curated dataset'
+      );
+    }
+    if (scanSafety.lookalikeWarnings.length > 0) {
+      app.logger.warn(
+        {
+          scanId: scan.id,
+          species: analysis.species,
+          lookalikes: scanSafety.lookalikeWarnings.map((warning) => warning.lookalikeSpecies),
+        },
+        'Edibility downgraded due to toxic look-alike'
+      );
+    }
+
+    // All or nothing: a scan is never complete without its candidates and version, and its job
+    // is only finished once they are saved; a retry replaces the candidates
+    const version = await app.db.transaction(async (tx) => {
+      await tx.delete(schema.scanCandidates).where(eq(schema.scanCandidates.scanId, scan.id));
+      if (analysis.candidates.length > 0) {
+        await tx.insert(schema.scanCandidates).values(
+          analysis.candidates.map((candidate, rank) => ({
+            scanId: scan.id,
+            rank,
+            species: candidate.species,
+            commonName: candidate.commonName,
+            confidence: candidate.confidence,
+            distinguishingFeatures: candidate.distinguishingFeatures,
+          }))
+        );
+      }
+
+      await tx.update(schema.scans)
+        .set({
+          status: 'complete',
+          species: analysis.species,
+          commonName: analysis.commonName,
+          ...scanSafety,
+          confidence: analysis.confidence,
+          warnings: analysis.warnings,
+          description: analysis.description,
+          provider: provider.name,
+          model: provider.model,
+          originalAnalysis: identified,
+          ...resolution,
+          // Corrections and acknowledgements were about the analysis being replaced, whose history entry keeps the correction
+          correctedAt: null,
+          lookalikeAcknowledgedAt: null,
+        })
+        .where(eq(schema.scans.id, scan.id));
+
+      // A scan has one job at a time, so nothing else adds a version meanwhile
+      const [{ latest }] = await tx.select({ latest: max(schema.scanAnalyses.version) })
+        .from(schema.scanAnalyses)
+        .where(eq(schema.scanAnalyses.scanId, scan.id));
+      const next = (latest ?? 0) + 1;
+      await tx.insert(schema.scanAnalyses).values({
+        scanId: scan.id,
+        version: next,
+        provider: provider.name,
+        model: provider.model,
+        hint: job.hint,
+        analysis: identified,
+        edibility: scanSafety.edibility,
+        lookalikeWarnings: scanSafety.lookalikeWarnings,
+      });
+      await finishAnalysisJob(tx, job.id);
+      return next;
+    });
+
+    app.logger.info(
+      { scanId: scan.id, version, candidateCount: analysis.candidates.length },
+      'Scan analysis saved'
+    );
+    emit(scan.id, { stage: 'complete' });
+  };
+
+  const run = async (job: AnalysisJob) => {
+    try {
+      await analyse(job);
+    } catch (error) {
+      const failure = await failAnalysisJob(app, job, error);
+      const status = failure.status === 'dead' ? 'failed' : 'pending';
+      // A failed re-analysis keeps the scan's current analysis
+      await app.db.update(schema.scans)
+        .set({ status })
+        .where(and(eq(schema.scans.id, job.scanId), ne(schema.scans.status, 'complete')));
+
+      if (failure.status === 'dead') {
+        app.logger.error({ err: error, scanId: job.scanId, attempts: job.attempts }, 'Scan analysis failed for good');
+        emit(job.scanId, { stage: 'failed' });
+      } else {
+        app.logger.warn(
+          { err: error, scanId: job.scanId, attempts: job.attempts, retryAt: failure.runAt },
+          'Scan analysis failed; retrying later'
+        );
+        emit(job.scanId, { stage: 'retrying', retryAt: failure.runAt.toISOString() });
+      }
+    }
+  };
+
+  // Work through due jobs until none are left
+  const drain = async () => {
+    while (running) {
+      const job = await claimAnalysisJob(app);
+      if (!job) return;
+      await run(job);
+    }
+  };
+
+  const schedule = (delay: number) => {
+    if (running && !timer) {
+      timer = setTimeout(poll, delay);
+    }
+  };
+
+  // Start a drain loop in every free slot; each goes back to polling once it runs dry
+  const fill = () => {
+    while (running && loops.size < concurrency) {
+      const loop: Promise<void> = drain()
+        .catch((error) => {
+          app.logger.error({ err: error }, 'Analysis worker loop failed');
+        })
+        .finally(() => {
+          loops.delete(loop);
+          schedule(POLL_INTERVAL_MS);
+        });
+      loops.add(loop);
+    }
+  };
+
+  const poll = async () => {
+    timer = null;
+    if (!running) return;
+    try {
+      const requeued = await requeueStaleAnalysisJobs(app);
+      if (requeued > 0) {
+        app.logger.warn({ count: requeued }, 'Requeued analysis jobs from a stopped worker');
+      }
+    } catch (error) {
+      app.logger.error({ err: error }, 'Failed to requeue stale analysis jobs');
+    }
+    fill();
+  };
+
+  return {
+    provider,
+
+    start() {
+      if (running) return;
+      running = true;
+      app.logger.info(
+        { provider: provider.name, model: provider.model, concurrency },
+        'Analysis worker started'
+      );
+      void poll();
+    },
+
+    async stop() {
+      running = false;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await Promise.all(loops);
+    },
+
+    wake() {
+      if (!running) return;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      void poll();
+    },
+
+    subscribe(scanId, listener) {
+      events.on(scanId, listener);
+      return () => {
+        events.off(scanId, listener);
+      };
+    },
+  };
+}
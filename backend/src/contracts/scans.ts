@@ -0,0 +1,309 @@
+import { z } from 'zod';
+import { analysisSchema, candidateSchema, partialAnalysisSchema } from '../identification/types.js';
+import { coordinatesSchema } from '../location/precision.js';
+import {
+  SAFETY_ROUTES,
+  safetyAssessmentSchema,
+  safetyCitationsSchema,
+  safetyConflictSchema,
+  safetySourcesSchema,
+} from '../safety/assessment.js';
+
+/**
+ * Request and response shapes of the /api/scans routes. The handlers
+ * validate requests and serialise responses with these schemas, and the Expo
+ * app parses responses with the same ones, so this module may only depend on
+ * zod and other zod-only modules.
+ */
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+export const MAX_MAP_SCANS = 500;
+
+// Dates leave the server as ISO strings; the client parses the strings back unchanged
+const timestampSchema = z.preprocess((value) => (value instanceof Date ? value.toISOString() : value), z.iso.datetime());
+
+const booleanParam = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+// Zod schema for the :id route parameter
+export const scanIdParamsSchema = z.object({
+  id: z.uuid(),
+});
+
+// Zod schema for the Idempotency-Key header of POST /api/scans/upload
+export const idempotencyKeySchema = z.string().trim().min(1).max(255);
+
+// Zod schema for the text fields of POST /api/scans/upload; they must precede the image
+export const uploadScanFieldsSchema = coordinatesSchema.partial().extend({
+  clientScanId: z.uuid().optional(),
+});
+
+// Zod schema for GET /api/scans query parameters
+export const listScansQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().optional(),
+  confidence: z.enum(['high', 'medium', 'low']).optional(),
+  safeToEat: booleanParam.optional(),
+  safeToTouch: booleanParam.optional(),
+  from: z.string().pipe(z.coerce.date()).optional(),
+  to: z.string().pipe(z.coerce.date()).optional(),
+  q: z.string().trim().min(1).max(100).optional(),
+});
+
+// Zod schema for GET /api/scans/bbox query parameters
+export const boundingBoxQuerySchema = z.object({
+  minLat: z.coerce.number().min(-90).max(90),
+  minLng: z.coerce.number().min(-180).max(180),
+  maxLat: z.coerce.number().min(-90).max(90),
+  maxLng: z.coerce.number().min(-180).max(180),
+}).refine((box) => box.minLat <= box.maxLat, { message: 'minLat must not exceed maxLat', path: ['minLat'] });
+
+// Zod schema for user corrections to a scan (PATCH /api/scans/:id)
+export const updateScanBodySchema = z.object({
+  species: z.string().trim().min(1).optional(),
+  commonName: z.string().trim().min(1).optional(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+});
+
+// Zod schema for POST /api/scans/:id/reanalyze
+export const reanalyzeScanBodySchema = z.object({
+  // What the user knows about the subject, e.g. "it's a mushroom, grew on oak"
+  hint: z.string().trim().min(1).max(500).optional(),
+});
+
+export const edibilitySchema = z.enum(['safe', 'unsafe', 'unverified']);
+
+// Scans are analysed by a background job after the upload returns
+export const scanStatusSchema = z.enum(['pending', 'analysing', 'complete', 'failed']);
+
+// How a scan's scientific name matched the bundled checklist
+export const nameMatchTypeSchema = z.enum(['exact', 'synonym', 'fuzzy', 'none']);
+
+// Progress of a re-analysis of a scan that already has an analysis
+export const reanalysisStatusSchema = z.enum(['pending', 'analysing', 'failed']);
+
+// Zod schema for a toxic look-alike of an edible identification
+export const lookalikeWarningSchema = z.object({
+  edibleSpecies: z.string(),
+  edibleCommonName: z.string(),
+  lookalikeSpecies: z.string(),
+  lookalikeCommonName: z.string(),
+  distinguishingTraits: z.string(),
+});
+
+// How a client must present a route's verdict: as is, as unverified, or not at all
+export const presentationActionSchema = z.enum(['show', 'downgrade', 'suppress']);
+
+// Zod schema for why the presentation policy held back a verdict
+export const presentationReasonSchema = z.object({
+  code: z.literal('confidence_below_threshold'),
+  route: z.enum(SAFETY_ROUTES),
+  confidence: analysisSchema.shape.confidence,
+  requiredConfidence: analysisSchema.shape.confidence,
+  message: z.string(),
+});
+
+// Zod schema for the server's presentation policy applied to one scan
+export const presentationDecisionSchema = z.object({
+  // Eating must be shown as "Do not consume — identification uncertain"
+  doNotConsume: z.boolean(),
+  routes: z.object({
+    ingestion: presentationActionSchema,
+    skinContact: presentationActionSchema,
+    inhalation: presentationActionSchema,
+    pets: presentationActionSchema,
+    children: presentationActionSchema,
+  }),
+  // Empty when every verdict is shown as is
+  reasons: z.array(presentationReasonSchema),
+});
+
+// Signed image URLs; scans without variants get the original for every size
+const scanImageUrlsSchema = z.object({
+  imageUrl: z.string(),
+  thumbnailUrl: z.string(),
+  mediumUrl: z.string(),
+});
+
+// Zod schema for an analysed scan as returned to its owner
+export const scanSchema = scanImageUrlsSchema.extend({
+  id: z.uuid(),
+  status: z.literal('complete'),
+  species: z.string(),
+  commonName: z.string(),
+  safety: safetyAssessmentSchema,
+  // Which routes carry a reviewed verdict, and where the model had said otherwise
+  safetySources: safetySourcesSchema,
+  safetyConflicts: z.array(safetyConflictSchema),
+  // Curated safety dataset version applied; null when every verdict is the model's
+  safetyDatasetVersion: z.number().int().nullable(),
+  // Dataset entries and references behind each route's verdict and the warnings, or the model
+  safetyCitations: safetyCitationsSchema,
+  // Which verdicts may be shown, given how confident the identification is
+  presentation: presentationDecisionSchema,
+  confidence: analysisSchema.shape.confidence,
+  warnings: z.string(),
+  description: z.string(),
+  edibility: edibilitySchema,
+  lookalikeWarnings: z.array(lookalikeWarningSchema),
+  lookalikeAcknowledgedAt: timestampSchema.nullable(),
+  // The model's answer before any user correction
+  originalAnalysis: analysisSchema.pick({ species: true, commonName: true }),
+  // Checklist name the species resolved to, and how; null until the name is resolved
+  acceptedName: z.string().nullable(),
+  nameMatch: nameMatchTypeSchema.nullable(),
+  // Catalog entry for the accepted name, when the catalog knows it
+  speciesId: z.uuid().nullable(),
+  notes: z.string().nullable(),
+  correctedAt: timestampSchema.nullable(),
+  latitude: z.number().nullable(),
+  longitude: z.number().nullable(),
+  locationSource: z.enum(['device', 'exif']).nullable(),
+  createdAt: timestampSchema,
+});
+
+export const scanDetailSchema = scanSchema.extend({
+  candidates: z.array(candidateSchema),
+  // Null unless a re-analysis is queued, running or has failed
+  reanalysisStatus: reanalysisStatusSchema.nullable(),
+});
+
+// Zod schema for a scan whose analysis has not completed; only the capture exists yet
+export const unanalysedScanSchema = scanImageUrlsSchema.extend({
+  id: z.uuid(),
+  status: scanStatusSchema.exclude(['complete']),
+  latitude: z.number().nullable(),
+  longitude: z.number().nullable(),
+  locationSource: z.enum(['device', 'exif']).nullable(),
+  createdAt: timestampSchema,
+});
+
+// GET /api/scans/:id answers for scans in any state, so clients can poll it
+export const scanDetailResponseSchema = z.discriminatedUnion('status', [scanDetailSchema, unanalysedScanSchema]);
+
+export const scanUploadResponseSchema = scanImageUrlsSchema.extend({
+  scanId: z.uuid(),
+  // pending for a new scan; a replayed upload reports where its scan has got to
+  status: scanStatusSchema,
+});
+
+// Media type a client sends in Accept to receive POST /api/scans/upload as progress events
+export const UPLOAD_PROGRESS_CONTENT_TYPE = 'application/x-ndjson';
+
+// Zod schema for one line of a streamed upload, in the order the stages happen.
+// After saved, the stream follows the scan's analysis job until it completes,
+// fails for good or is scheduled for a retry; clients poll from there.
+// Failures before the scan is saved arrive as an error event, since the HTTP
+// status has already been sent.
+export const uploadProgressEventSchema = z.discriminatedUnion('stage', [
+  z.object({ stage: z.literal('received') }),
+  z.object({ stage: z.literal('stored') }),
+  z.object({ stage: z.literal('saved'), result: scanUploadResponseSchema }),
+  z.object({ stage: z.literal('analysing') }),
+  z.object({ stage: z.literal('partial'), analysis: partialAnalysisSchema }),
+  z.object({ stage: z.literal('complete') }),
+  z.object({ stage: z.literal('retrying'), retryAt: timestampSchema }),
+  z.object({ stage: z.literal('failed') }),
+  z.object({ stage: z.literal('error'), error: z.string(), code: z.string().optional() }),
+]);
+
+// Zod schema for what a user corrected an analysis to
+export const analysisCorrectionSchema = z.object({
+  species: z.string(),
+  commonName: z.string(),
+  correctedAt: timestampSchema,
+});
+
+// Zod schema for one analysis in a scan's history
+export const scanAnalysisSchema = z.object({
+  version: z.number().int(),
+  provider: z.string(),
+  model: z.string(),
+  hint: z.string().nullable(),
+  // The model's answer as returned, before the look-alike gate
+  analysis: analysisSchema,
+  edibility: edibilitySchema,
+  lookalikeWarnings: z.array(lookalikeWarningSchema),
+  // The user's latest correction of this answer; kept when a later analysis replaces it
+  correction: analysisCorrectionSchema.nullable(),
+  createdAt: timestampSchema,
+});
+
+export const scanAnalysesResponseSchema = z.object({
+  // Newest first; the first entry is what the scan currently shows
+  analyses: z.array(scanAnalysisSchema),
+});
+
+export const scanListResponseSchema = z.object({
+  scans: z.array(scanSchema),
+  nextCursor: z.string().nullable(),
+});
+
+export const mapScanSchema = scanSchema.pick({
+  id: true,
+  imageUrl: true,
+  thumbnailUrl: true,
+  mediumUrl: true,
+  species: true,
+  commonName: true,
+  safety: true,
+  edibility: true,
+  confidence: true,
+  presentation: true,
+  createdAt: true,
+}).extend({
+  latitude: z.number(),
+  longitude: z.number(),
+});
+
+export const mapScansResponseSchema = z.object({
+  scans: z.array(mapScanSchema),
+  // More scans exist in the box than are returned at once
+  truncated: z.boolean(),
+});
+
+export const acknowledgeLookalikesResponseSchema = z.object({
+  scanId: z.uuid(),
+  lookalikeAcknowledgedAt: timestampSchema,
+});
+
+export const deleteScanResponseSchema = z.object({
+  success: z.literal(true),
+  scanId: z.uuid(),
+});
+
+// Body of every 4xx response
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  code: z.string().optional(),
+  issues: z.array(z.unknown()).optional(),
+});
+
+export type UploadScanFields = z.infer<typeof uploadScanFieldsSchema>;
+export type ListScansQuery = z.infer<typeof listScansQuerySchema>;
+export type BoundingBoxQuery = z.infer<typeof boundingBoxQuerySchema>;
+export type UpdateScanBody = z.input<typeof updateScanBodySchema>;
+export type ReanalyzeScanBody = z.input<typeof reanalyzeScanBodySchema>;
+export type Edibility = z.infer<typeof edibilitySchema>;
+export type ScanStatus = z.infer<typeof scanStatusSchema>;
+export type ReanalysisStatus = z.infer<typeof reanalysisStatusSchema>;
+export type NameMatchType = z.infer<typeof nameMatchTypeSchema>;
+export type LookalikeWarning = z.infer<typeof lookalikeWarningSchema>;
+export type PresentationAction = z.infer<typeof presentationActionSchema>;
+export type PresentationReason = z.infer<typeof presentationReasonSchema>;
+export type PresentationDecision = z.infer<typeof presentationDecisionSchema>;
+export type Scan = z.infer<typeof scanSchema>;
+export type ScanDetail = z.infer<typeof scanDetailSchema>;
+export type UnanalysedScan = z.infer<typeof unanalysedScanSchema>;
+export type ScanDetailResponse = z.infer<typeof scanDetailResponseSchema>;
+export type ScanUploadResponse = z.infer<typeof scanUploadResponseSchema>;
+export type UploadProgressEvent = z.infer<typeof uploadProgressEventSchema>;
+export type AnalysisCorrection = z.infer<typeof analysisCorrectionSchema>;
+export type ScanAnalysis = z.infer<typeof scanAnalysisSchema>;
+export type ScanAnalysesResponse = z.infer<typeof scanAnalysesResponseSchema>;
+export type ScanListResponse = z.infer<typeof scanListResponseSchema>;
+export type MapScan = z.infer<typeof mapScanSchema>;
+export type MapScansResponse = z.infer<typeof mapScansResponseSchema>;
+export type AcknowledgeLookalikesResponse = z.infer<typeof acknowledgeLookalikesResponseSchema>;
+export type DeleteScanResponse = z.infer<typeof deleteScanResponseSchema>;
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { LOCATION_PRECISIONS } from '../location/precision.js';
+
+/**
+ * Request and response shapes of the /api/settings routes, shared with the
+ * Expo app like the scans contracts, so this module may only depend on zod
+ * and other zod-only modules.
+ */
+
+// Zod schema for a user's settings, as returned by the settings routes
+export const userSettingsSchema = z.object({
+  // How precisely the location of new scans is stored
+  locationPrecision: z.enum(LOCATION_PRECISIONS),
+});
+
+// Zod schema for settings updates
+export const updateSettingsBodySchema = userSettingsSchema;
+
+export type UserSettings = z.infer<typeof userSettingsSchema>;
+export type UpdateSettingsBody = z.infer<typeof updateSettingsBodySchema>;
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { safetyAssessmentSchema } from '../safety/assessment.js';
+
+/**
+ * Request and response shapes of the /api/species routes, shared with the
+ * Expo app like the scans contracts, so this module may only depend on zod
+ * and other zod-only modules.
+ */
+
+// Zod schema for the :id route parameter
+export const speciesIdParamsSchema = z.object({
+  id: z.uuid(),
+});
+
+// Zod schema for the taxonomy above a species; the catalog leaves out ranks it does not know
+export const taxonomicRanksSchema = z.object({
+  kingdom: z.string(),
+  phylum: z.string(),
+  class: z.string(),
+  order: z.string(),
+  family: z.string(),
+  genus: z.string(),
+}).partial();
+
+// Zod schema for a catalog entry as curated in the bundled catalog file
+export const speciesCatalogEntrySchema = z.object({
+  // Accepted name in the checklist, as "Genus epithet" without authorship
+  scientificName: z.string(),
+  ranks: taxonomicRanksSchema,
+  // Keyed by locale, e.g. "en" or "de"; the first name is the preferred one
+  commonNames: z.record(z.string(), z.array(z.string())),
+});
+
+export const speciesSchema = speciesCatalogEntrySchema.extend({
+  id: z.uuid(),
+  // From the checklist, in canonical form
+  synonyms: z.array(z.string()),
+  // Reviewed routes from the curated safety dataset; null where it has none and scans rely on the model
+  safety: safetyAssessmentSchema.partial().nullable(),
+  // The requesting user's analysed scans linked to this species
+  scanCount: z.number().int(),
+});
+
+export type TaxonomicRanks = z.infer<typeof taxonomicRanksSchema>;
+export type SpeciesCatalogEntry = z.infer<typeof speciesCatalogEntrySchema>;
+export type Species = z.infer<typeof speciesSchema>;
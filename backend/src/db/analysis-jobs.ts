@@ -0,0 +1,121 @@
+import { and, asc, eq, inArray, lte, sql } from 'drizzle-orm';
+import type { App } from '../index.js';
+import type { ImageMimeType } from '../identification/types.js';
+import * as schema from './schema.js';
+
+// Attempts before a job is dead-lettered and its scan marked failed
+export const MAX_ANALYSIS_ATTEMPTS = 5;
+// A running job whose lock is older than this belonged to a worker that died
+export const ANALYSIS_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+export type AnalysisJob = typeof schema.analysisJobs.$inferSelect;
+
+// The database, or a transaction on it
+type Executor = Pick<App['db'], 'insert' | 'delete'>;
+
+export type AnalysisJobFailure =
+  | { status: 'retrying'; runAt: Date }
+  | { status: 'dead' };
+
+/**
+ * Backoff before the next attempt: 30s, 1m, 2m, ... capped at 30 minutes
+ */
+export function analysisRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Queue the analysis of a scan, to run as soon as a worker is free. Returns
+ * false when the scan already has a job, since a scan has at most one. Pass a
+ * transaction to make the scan's own changes before any worker can see the job.
+ */
+export async function enqueueAnalysisJob(
+  db: Executor,
+  scanId: string,
+  mimeType: ImageMimeType,
+  hint?: string
+): Promise<boolean> {
+  const queued = await db.insert(schema.analysisJobs)
+    .values({ scanId, mimeType, hint })
+    .onConflictDoNothing({ target: schema.analysisJobs.scanId })
+    .returning({ id: schema.analysisJobs.id });
+  return queued.length > 0;
+}
+
+/**
+ * Remove a scan's dead-lettered job so the scan can be queued again
+ */
+export async function clearDeadAnalysisJob(db: Executor, scanId: string): Promise<void> {
+  await db.delete(schema.analysisJobs)
+    .where(and(eq(schema.analysisJobs.scanId, scanId), eq(schema.analysisJobs.status, 'dead')));
+}
+
+/**
+ * Take the next due job and lock it. SKIP LOCKED lets several workers, in
+ * this process or others, claim jobs concurrently without taking the same one.
+ */
+export async function claimAnalysisJob(app: App): Promise<AnalysisJob | null> {
+  const next = app.db.select({ id: schema.analysisJobs.id })
+    .from(schema.analysisJobs)
+    .where(and(eq(schema.analysisJobs.status, 'queued'), lte(schema.analysisJobs.runAt, new Date())))
+    .orderBy(asc(schema.analysisJobs.runAt))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const [job] = await app.db.update(schema.analysisJobs)
+    .set({
+      status: 'running',
+      attempts: sql`${schema.analysisJobs.attempts} + 1`,
+      lockedAt: new Date(),
+    })
+    .where(inArray(schema.analysisJobs.id, next))
+    .returning();
+
+  return job ?? null;
+}
+
+/**
+ * Put jobs back in the queue whose worker stopped without finishing them.
+ * The interrupted run already counted as an attempt.
+ */
+export async function requeueStaleAnalysisJobs(app: App): Promise<number> {
+  const requeued = await app.db.update(schema.analysisJobs)
+    .set({ status: 'queued', lockedAt: null })
+    .where(and(
+      eq(schema.analysisJobs.status, 'running'),
+      lte(schema.analysisJobs.lockedAt, new Date(Date.now() - ANALYSIS_LOCK_TIMEOUT_MS))
+    ))
+    .returning({ id: schema.analysisJobs.id });
+  return requeued.length;
+}
+
+/**
+ * Remove a job whose analysis was saved; pass the transaction that saved it
+ */
+export async function finishAnalysisJob(db: Executor, jobId: string): Promise<void> {
+  await db.delete(schema.analysisJobs).where(eq(schema.analysisJobs.id, jobId));
+}
+
+/**
+ * Schedule a failed job for another attempt, or dead-letter it once it has
+ * used all of its attempts
+ */
+export async function failAnalysisJob(app: App, job: AnalysisJob, error: unknown): Promise<AnalysisJobFailure> {
+  const lastError = error instanceof Error ? error.message : String(error);
+
+  if (job.attempts >= MAX_ANALYSIS_ATTEMPTS) {
+    await app.db.update(schema.analysisJobs)
+      .set({ status: 'dead', lockedAt: null, lastError })
+      .where(eq(schema.analysisJobs.id, job.id));
+    return { status: 'dead' };
+  }
+
+  const runAt = new Date(Date.now() + analysisRetryDelay(job.attempts));
+  await app.db.update(schema.analysisJobs)
+    .set({ status: 'queued', lockedAt: null, runAt, lastError })
+    .where(eq(schema.analysisJobs.id, job.id));
+  return { status: 'retrying', runAt };
+}
@@ -0,0 +1,86 @@
+import { createHash } from 'node:crypto';
+import { and, eq, isNull, lte } from 'drizzle-orm';
+import type { App } from '../index.js';
+import * as schema from './schema.js';
+
+// How long a key is remembered after its first use
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type IdempotencyClaim =
+  | { status: 'claimed' }
+  | { status: 'replay'; scanId: string }
+  | { status: 'mismatch' }
+  | { status: 'in_progress' };
+
+export function hashRequestBody(body: Buffer): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+/**
+ * Reserve an idempotency key for a request, or report what an earlier
+ * request with the same key did: finished (replay), is still running, or
+ * sent different content under the same key (mismatch).
+ */
+export async function claimIdempotencyKey(
+  app: App,
+  userId: string,
+  key: string,
+  requestHash: string
+): Promise<IdempotencyClaim> {
+  // Expired keys may be reused, so clear them out first
+  await app.db.delete(schema.idempotencyKeys).where(
+    and(eq(schema.idempotencyKeys.userId, userId), lte(schema.idempotencyKeys.expiresAt, new Date()))
+  );
+
+  const [claimed] = await app.db.insert(schema.idempotencyKeys)
+    .values({
+      userId,
+      key,
+      requestHash,
+      expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS),
+    })
+    .onConflictDoNothing({ target: [schema.idempotencyKeys.userId, schema.idempotencyKeys.key] })
+    .returning();
+
+  if (claimed) {
+    return { status: 'claimed' };
+  }
+
+  const existing = await app.db.query.idempotencyKeys.findFirst({
+    where: and(eq(schema.idempotencyKeys.userId, userId), eq(schema.idempotencyKeys.key, key)),
+  });
+
+  // Released by a failed request between our insert and this read; the client can retry
+  if (!existing) {
+    return { status: 'in_progress' };
+  }
+  if (existing.requestHash !== requestHash) {
+    return { status: 'mismatch' };
+  }
+  if (!existing.scanId) {
+    return { status: 'in_progress' };
+  }
+  return { status: 'replay', scanId: existing.scanId };
+}
+
+/**
+ * Record the scan a claimed key produced, so repeats replay it
+ */
+export async function completeIdempotencyKey(app: App, userId: string, key: string, scanId: string): Promise<void> {
+  await app.db.update(schema.idempotencyKeys)
+    .set({ scanId })
+    .where(and(eq(schema.idempotencyKeys.userId, userId), eq(schema.idempotencyKeys.key, key)));
+}
+
+/**
+ * Forget a claimed key after its request failed, so the client can retry it
+ */
+export async function releaseIdempotencyKey(app: App, userId: string, key: string): Promise<void> {
+  await app.db.delete(schema.idempotencyKeys).where(
+    and(
+      eq(schema.idempotencyKeys.userId, userId),
+      eq(schema.idempotencyKeys.key, key),
+      isNull(schema.idempotencyKeys.scanId)
+    )
+  );
+}
@@ -0,0 +1,193 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { SAFETY_ROUTES, type SafetyAssessment, type SafetySeverity } from '../safety/assessment.js';
+import { createTestApp, type TestApp } from '../testing/test-app.js';
+import { decodeCursor, encodeCursor } from './scan-filters.js';
+
+let testApp: TestApp;
+
+before(async () => {
+  testApp = await createTestApp();
+});
+
+after(async () => {
+  await testApp.close();
+});
+
+// Each test lists its own user's scans, so they cannot see each other's
+const newUser = async (userId: string) => {
+  await testApp.createUser(userId);
+  return userId;
+};
+
+// Safe on every route except those given
+const safetyWith = (overrides: Partial<Record<keyof SafetyAssessment, SafetySeverity>>) => {
+  const safety = {} as SafetyAssessment;
+  for (const route of SAFETY_ROUTES) {
+    safety[route] = { severity: overrides[route] ?? 'safe', conditions: [], notes: '' };
+  }
+  return safety;
+};
+
+const listScans = (userId: string, query: string) =>
+  testApp.app.fastify.inject({
+    method: 'GET',
+    url: `/api/scans?${query}`,
+    headers: { authorization: testApp.authorization(userId) },
+  });
+
+// The ids a query returns, in the order it returns them
+const listIds = async (userId: string, query: string) => {
+  const response = await listScans(userId, query);
+  assert.equal(response.statusCode, 200, response.body);
+  return response.json().scans.map((scan: { id: string }) => scan.id);
+};
+
+test('cursor pages walk every scan exactly once, even when scans share a timestamp', async () => {
+  const userId = await newUser('paging-user');
+  const sameMoment = new Date('2026-05-01T10:00:00.000Z');
+  const ids = [
+    await testApp.insertScan(userId, { createdAt: new Date('2026-05-02T10:00:00.000Z') }),
+    ...(await Promise.all([1, 2, 3, 4].map(() => testApp.insertScan(userId, { createdAt: sameMoment })))),
+    await testApp.insertScan(userId, { createdAt: new Date('2026-04-30T10:00:00.000Z') }),
+  ];
+  await testApp.insertScan(userId, { status: 'pending', createdAt: sameMoment });
+  // Newest first, ties broken by id, descending
+  const expected = [ids[0], ...ids.slice(1, 5).sort().reverse(), ids[5]];
+
+  const seen: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const response = await listScans(userId, `limit=2${cursor ? `&cursor=${cursor}` : ''}`);
+    assert.equal(response.statusCode, 200);
+    const page: { scans: { id: string }[]; nextCursor: string | null } = response.json();
+    assert.ok(page.scans.length <= 2);
+    seen.push(...page.scans.map((scan) => scan.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  assert.deepEqual(seen, expected);
+});
+
+test('a cursor that was not produced by the server is refused', async () => {
+  const userId = await newUser('bad-cursor-user');
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  for (const cursor of [
+    'not-a-cursor',
+    encode({ createdAt: '2026-05-01T10:00:00.000Z', id: 'not-a-uuid' }),
+    encode({ id: '6f1c2a3e-5b4d-4c7e-9a8f-0123456789ab' }),
+  ]) {
+    const response = await listScans(userId, `cursor=${cursor}`);
+    assert.equal(response.statusCode, 400, cursor);
+    assert.equal(response.json().error, 'Invalid cursor');
+  }
+
+  const position = { createdAt: new Date('2026-05-01T10:00:00.000Z'), id: '6f1c2a3e-5b4d-4c7e-9a8f-0123456789ab' };
+  assert.deepEqual(decodeCursor(encodeCursor(position)), position);
+});
+
+test('the confidence filter matches the identification confidence exactly', async () => {
+  const userId = await newUser('confidence-user');
+  const high = await testApp.insertScan(userId, { confidence: 'high' });
+  const medium = await testApp.insertScan(userId, { confidence: 'medium' });
+
+  assert.deepEqual(await listIds(userId, 'confidence=high'), [high]);
+  assert.deepEqual(await listIds(userId, 'confidence=medium'), [medium]);
+  assert.deepEqual(await listIds(userId, 'confidence=low'), []);
+});
+
+test('safeToEat needs a permitted eating verdict and an edibility the look-alike gate did not withhold', async () => {
+  const userId = await newUser('eating-user');
+  const edible = await testApp.insertScan(userId, { createdAt: new Date('2026-05-04T00:00:00.000Z') });
+  const withCaution = await testApp.insertScan(userId, {
+    safety: safetyWith({ ingestion: 'caution' }),
+    createdAt: new Date('2026-05-03T00:00:00.000Z'),
+  });
+  const unverified = await testApp.insertScan(userId, {
+    edibility: 'unverified',
+    createdAt: new Date('2026-05-02T00:00:00.000Z'),
+  });
+  const deadly = await testApp.insertScan(userId, {
+    safety: safetyWith({ ingestion: 'deadly' }),
+    edibility: 'unsafe',
+    createdAt: new Date('2026-05-01T00:00:00.000Z'),
+  });
+
+  assert.deepEqual(await listIds(userId, 'safeToEat=true'), [edible, withCaution]);
+  assert.deepEqual(await listIds(userId, 'safeToEat=false'), [unverified, deadly]);
+});
+
+test('safeToTouch needs a permitted skin contact verdict', async () => {
+  const userId = await newUser('touching-user');
+  const touchable = await testApp.insertScan(userId, { safety: safetyWith({ ingestion: 'deadly' }), edibility: 'unsafe' });
+  const irritant = await testApp.insertScan(userId, { safety: safetyWith({ skinContact: 'harmful' }) });
+  const unknown = await testApp.insertScan(userId, { safety: safetyWith({ skinContact: 'unknown' }) });
+
+  assert.deepEqual(await listIds(userId, 'safeToTouch=true'), [touchable]);
+  assert.deepEqual((await listIds(userId, 'safeToTouch=false')).sort(), [irritant, unknown].sort());
+});
+
+test('from and to bound the scan time, both inclusive', async () => {
+  const userId = await newUser('dates-user');
+  const march = await testApp.insertScan(userId, { createdAt: new Date('2026-03-15T12:00:00.000Z') });
+  const april = await testApp.insertScan(userId, { createdAt: new Date('2026-04-01T00:00:00.000Z') });
+  const may = await testApp.insertScan(userId, { createdAt: new Date('2026-05-15T12:00:00.000Z') });
+
+  assert.deepEqual(await listIds(userId, 'from=2026-04-01T00:00:00.000Z'), [may, april]);
+  assert.deepEqual(await listIds(userId, 'to=2026-04-01T00:00:00.000Z'), [april, march]);
+  assert.deepEqual(await listIds(userId, 'from=2026-03-01&to=2026-03-31'), [march]);
+
+  const invalid = await listScans(userId, 'from=yesterday');
+  assert.equal(invalid.statusCode, 400);
+});
+
+test('q searches the species and common name without treating wildcards specially', async () => {
+  const userId = await newUser('search-user');
+  const porcini = await testApp.insertScan(userId, { species: 'Boletus edulis', commonName: 'Porcini' });
+  const flyAgaric = await testApp.insertScan(userId, { species: 'Amanita muscaria', commonName: 'Fly agaric' });
+
+  assert.deepEqual(await listIds(userId, 'q=porc'), [porcini]);
+  assert.deepEqual(await listIds(userId, 'q=AMANITA'), [flyAgaric]);
+  assert.deepEqual(await listIds(userId, 'q=%25'), []);
+  assert.deepEqual(await listIds(userId, 'q=_'), []);
+});
+
+const mapScanIds = async (userId: string, box: { minLat: number; minLng: number; maxLat: number; maxLng: number }) => {
+  const query = new URLSearchParams(Object.entries(box).map(([key, value]): [string, string] => [key, String(value)]));
+  const response = await testApp.app.fastify.inject({
+    method: 'GET',
+    url: `/api/scans/bbox?${query}`,
+    headers: { authorization: testApp.authorization(userId) },
+  });
+  assert.equal(response.statusCode, 200, response.body);
+  return response.json().scans.map((scan: { id: string }) => scan.id).sort();
+};
+
+test('the bounding box returns the located, analysed scans inside it, edges included', async () => {
+  const userId = await newUser('map-user');
+  const inside = await testApp.insertScan(userId, { latitude: 51.5, longitude: -0.12 });
+  const onEdge = await testApp.insertScan(userId, { latitude: 52, longitude: 1 });
+  await testApp.insertScan(userId, { latitude: 48.85, longitude: 2.35 });
+  await testApp.insertScan(userId, { latitude: null, longitude: null });
+  await testApp.insertScan(userId, { status: 'pending', latitude: 51.5, longitude: -0.12 });
+  const otherUser = await newUser('other-map-user');
+  await testApp.insertScan(otherUser, { latitude: 51.5, longitude: -0.12 });
+
+  assert.deepEqual(await mapScanIds(userId, { minLat: 51, minLng: -1, maxLat: 52, maxLng: 1 }), [inside, onEdge].sort());
+});
+
+test('a bounding box with minLng greater than maxLng wraps across the antimeridian', async () => {
+  const userId = await newUser('pacific-user');
+  const fiji = await testApp.insertScan(userId, { latitude: -17.7, longitude: 178.4 });
+  const samoa = await testApp.insertScan(userId, { latitude: -13.8, longitude: -171.8 });
+  const onMeridian = await testApp.insertScan(userId, { latitude: -15, longitude: 180 });
+  const sydney = await testApp.insertScan(userId, { latitude: -33.9, longitude: 151.2 });
+
+  assert.deepEqual(
+    await mapScanIds(userId, { minLat: -20, minLng: 170, maxLat: -10, maxLng: -170 }),
+    [fiji, samoa, onMeridian].sort()
+  );
+  // The same longitudes the other way round span the rest of the globe instead
+  assert.deepEqual(await mapScanIds(userId, { minLat: -40, minLng: -170, maxLat: -10, maxLng: 170 }), [sydney]);
+});
@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { and, eq, gte, ilike, inArray, lt, lte, or, sql, type SQL } from 'drizzle-orm';
+import * as schema from './schema.js';
+import type { BoundingBoxQuery, ListScansQuery } from '../contracts/scans.js';
+import { confidenceLevelsFrom, type PresentationPolicy } from '../safety/presentation.js';
+
+const scanCursorSchema = z.object({
+  createdAt: z.coerce.date(),
+  id: z.uuid(),
+});
+
+type ScanCursor = z.infer<typeof scanCursorSchema>;
+
+/**
+ * Encode the position after `scan` as an opaque cursor string.
+ */
+export function encodeCursor(scan: { createdAt: Date; id: string }): string {
+  return Buffer.from(JSON.stringify({ createdAt: scan.createdAt.toISOString(), id: scan.id })).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor. Returns null if it is malformed.
+ */
+export function decodeCursor(cursor: string): ScanCursor | null {
+  try {
+    const parsed = scanCursorSchema.safeParse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * SQL condition for an exposure route whose verdict permits it ("safe" or
+ * "caution") and is confident enough for the presentation policy to show it.
+ */
+function routePermitted(route: 'ingestion' | 'skinContact', policy: PresentationPolicy): SQL {
+  const confident = inArray(schema.scans.confidence, confidenceLevelsFrom(policy[route].minConfidence));
+  return sql`((${schema.scans.safety} -> ${sql.raw(`'${route}'`)} ->> 'severity') in ('safe', 'caution') and ${confident})`;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`);
+}
+
+/**
+ * Build the WHERE clause for a page of a user's analysed scans, newest first.
+ */
+export function buildScanListWhere(
+  userId: string,
+  query: ListScansQuery,
+  cursor: ScanCursor | null,
+  policy: PresentationPolicy
+): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [eq(schema.scans.userId, userId), eq(schema.scans.status, 'complete')];
+
+  if (cursor) {
+    conditions.push(
+      or(
+        lt(schema.scans.createdAt, cursor.createdAt),
+        and(eq(schema.scans.createdAt, cursor.createdAt), lt(schema.scans.id, cursor.id))
+      )
+    );
+  }
+
+  if (query.confidence) {
+    conditions.push(eq(schema.scans.confidence, query.confidence));
+  }
+
+  if (query.safeToEat !== undefined) {
+    const edible = and(routePermitted('ingestion', policy), sql`${schema.scans.edibility} <> 'unverified'`);
+    conditions.push(query.safeToEat ? edible : sql`not (${edible})`);
+  }
+
+  if (query.safeToTouch !== undefined) {
+    const touchable = routePermitted('skinContact', policy);
+    conditions.push(query.safeToTouch ? touchable : sql`not (${touchable})`);
+  }
+
+  if (query.from) {
+    conditions.push(gte(schema.scans.createdAt, query.from));
+  }
+
+  if (query.to) {
+    conditions.push(lte(schema.scans.createdAt, query.to));
+  }
+
+  if (query.q) {
+    const pattern = `%${escapeLike(query.q)}%`;
+    conditions.push(or(ilike(schema.scans.species, pattern), ilike(schema.scans.commonName, pattern)));
+  }
+
+  return and(...conditions);
+}
+
+/**
+ * SQL condition matching the expression indexed by scans_location_idx
+ */
+function locationWithin(minLng: number, minLat: number, maxLng: number, maxLat: number): SQL {
+  return sql`point(${schema.scans.longitude}, ${schema.scans.latitude}) <@ box(point(${minLng}, ${minLat}), point(${maxLng}, ${maxLat}))`;
+}
+
+/**
+ * Build the WHERE clause for a user's analysed, located scans inside a bounding box.
+ * A box with minLng > maxLng crosses the antimeridian and is split in two.
+ */
+export function buildScanBoundingBoxWhere(userId: string, box: BoundingBoxQuery): SQL | undefined {
+  const within = box.minLng <= box.maxLng
+    ? locationWithin(box.minLng, box.minLat, box.maxLng, box.maxLat)
+    : or(
+        locationWithin(box.minLng, box.minLat, 180, box.maxLat),
+        locationWithin(-180, box.minLat, box.maxLng, box.maxLat)
+      );
+
+  return and(eq(schema.scans.userId, userId), eq(schema.scans.status, 'complete'), within);
+}
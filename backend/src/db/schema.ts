@@ -1,20 +1,170 @@
-import { pgTable, uuid, text, boolean, timestamp, index } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, timestamp, integer, jsonb, index, uniqueIndex, doublePrecision } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 import { user } from './auth-schema.js';
+import type { SafetyAssessment, SafetyCitations, SafetyConflict, SafetySources } from '../safety/assessment.js';
+import type { LookalikeWarning } from '../safety/lookalikes.js';
+import type { Analysis, ImageMimeType } from '../identification/types.js';
+import type { TaxonomicRanks } from '../contracts/species.js';
+import type { AnalysisCorrection } from '../contracts/scans.js';
+
+// Canonical species, kept in sync with the bundled catalog file at startup
+export const species = pgTable('species', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  // Accepted name in the checklist, as "Genus epithet" without authorship
+  scientificName: text('scientific_name').notNull(),
+  // Copied from the checklist at sync
+  synonyms: jsonb('synonyms').$type<string[]>().notNull().default([]),
+  ranks: jsonb('ranks').$type<TaxonomicRanks>().notNull().default({}),
+  // Keyed by locale; the first name of each is the preferred one
+  commonNames: jsonb('common_names').$type<Record<string, string[]>>().notNull().default({}),
+  // Routes the curated safety dataset covers; null where only the model's assessment is available
+  safety: jsonb('safety').$type<Partial<SafetyAssessment>>(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('species_scientific_name_idx').on(table.scientificName),
+]);
 
 export const scans = pgTable('scans', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
-  imageUrl: text('image_url').notNull(),
+  // Storage key of the image; URLs are signed per response, never stored
   imageKey: text('image_key').notNull(),
+  // Resized copies; null for scans uploaded before variants existed
+  thumbnailKey: text('thumbnail_key'),
+  mediumKey: text('medium_key'),
+  // Analysis runs in a background job; the analysis columns stay null until it completes
+  status: text('status', { enum: ['pending', 'analysing', 'complete', 'failed'] }).notNull().default('pending'),
+  species: text('species'),
+  commonName: text('common_name'),
+  safety: jsonb('safety').$type<SafetyAssessment>(),
+  // Whether each route's verdict came from the curated dataset or the model, and where the two disagreed
+  safetySources: jsonb('safety_sources').$type<SafetySources>().notNull().default({
+    ingestion: 'model', skinContact: 'model', inhalation: 'model', pets: 'model', children: 'model',
+  }),
+  safetyConflicts: jsonb('safety_conflicts').$type<SafetyConflict[]>().notNull().default([]),
+  // Curated dataset version applied; null when no curated verdict was
+  safetyDatasetVersion: integer('safety_dataset_version'),
+  // What backs each safety claim; null until analysed
+  safetyCitations: jsonb('safety_citations').$type<SafetyCitations>(),
+  confidence: text('confidence', { enum: ['high', 'medium', 'low'] }),
+  warnings: text('warnings'),
+  description: text('description'),
+  provider: text('provider').notNull().default('gateway'),
+  model: text('model').notNull().default('openai/gpt-4o'),
+  edibility: text('edibility', { enum: ['safe', 'unsafe', 'unverified'] }).notNull().default('unverified'),
+  lookalikeWarnings: jsonb('lookalike_warnings').$type<LookalikeWarning[]>().notNull().default([]),
+  lookalikeAcknowledgedAt: timestamp('lookalike_acknowledged_at'),
+  originalAnalysis: jsonb('original_analysis').$type<Analysis>(),
+  // Checklist name the species resolves to and how it matched; both null until resolved
+  acceptedName: text('accepted_name'),
+  nameMatch: text('name_match', { enum: ['exact', 'synonym', 'fuzzy', 'none'] }),
+  // Catalog entry for the accepted name; null when the catalog does not know it
+  speciesId: uuid('species_id').references(() => species.id, { onDelete: 'set null' }),
+  // Checklist and catalog revision the name was resolved against; unmatched names are retried when it changes
+  resolutionRevision: text('resolution_revision'),
+  notes: text('notes'),
+  correctedAt: timestamp('corrected_at'),
+  // Where the subject was found, already reduced to the owner's location precision
+  latitude: doublePrecision('latitude'),
+  longitude: doublePrecision('longitude'),
+  locationSource: text('location_source', { enum: ['device', 'exif'] }),
+  // Generated on the device per capture, so retried uploads map to one scan
+  clientScanId: uuid('client_scan_id'),
+  // Millisecond precision so pagination cursors round-trip through JavaScript dates
+  createdAt: timestamp('created_at', { precision: 3 }).defaultNow().notNull(),
+}, (table) => [
+  index('scans_user_id_idx').on(table.userId),
+  index('scans_created_at_idx').on(table.createdAt),
+  index('scans_user_created_at_id_idx').on(table.userId, table.createdAt.desc(), table.id.desc()),
+  // Built-in point type, so bounding-box queries need no PostGIS extension
+  uniqueIndex('scans_user_client_scan_id_idx').on(table.userId, table.clientScanId),
+  index('scans_location_idx').using('gist', sql`point(${table.longitude}, ${table.latitude})`),
+  index('scans_species_id_idx').on(table.speciesId),
+]);
+
+export const scanCandidates = pgTable('scan_candidates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  scanId: uuid('scan_id').notNull().references(() => scans.id, { onDelete: 'cascade' }),
+  rank: integer('rank').notNull(),
   species: text('species').notNull(),
   commonName: text('common_name').notNull(),
-  isSafeToEat: boolean('is_safe_to_eat').notNull(),
-  isSafeToTouch: boolean('is_safe_to_touch').notNull(),
   confidence: text('confidence', { enum: ['high', 'medium', 'low'] }).notNull(),
-  warnings: text('warnings').notNull(),
-  description: text('description').notNull(),
+  distinguishingFeatures: text('distinguishing_features').notNull(),
+}, (table) => [
+  index('scan_candidates_scan_id_idx').on(table.scanId),
+]);
+
+export const userSettings = pgTable('user_settings', {
+  userId: text('user_id').primaryKey().references(() => user.id, { onDelete: 'cascade' }),
+  locationPrecision: text('location_precision', { enum: ['exact', 'approximate', 'off'] }).notNull().default('approximate'),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const idempotencyKeys = pgTable('idempotency_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  key: text('key').notNull(),
+  // sha256 of the uploaded image, to detect a key reused for different content
+  requestHash: text('request_hash').notNull(),
+  // Null while the first request with this key is still being processed
+  scanId: uuid('scan_id').references(() => scans.id, { onDelete: 'cascade' }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
 }, (table) => [
-  index('scans_user_id_idx').on(table.userId),
-  index('scans_created_at_idx').on(table.createdAt),
+  uniqueIndex('idempotency_keys_user_key_idx').on(table.userId, table.key),
+  index('idempotency_keys_expires_at_idx').on(table.expiresAt),
+]);
+
+// Postgres-backed queue of scan analyses, drained by the in-process analysis worker
+export const analysisJobs = pgTable('analysis_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  scanId: uuid('scan_id').notNull().references(() => scans.id, { onDelete: 'cascade' }),
+  // Detected type of the stored image, as the identification provider needs it
+  mimeType: text('mime_type').$type<ImageMimeType>().notNull(),
+  // What the user told us about the subject when asking for a re-analysis
+  hint: text('hint'),
+  // Finished jobs are deleted; dead ones ran out of attempts and stay as a dead letter
+  status: text('status', { enum: ['queued', 'running', 'dead'] }).notNull().default('queued'),
+  attempts: integer('attempts').notNull().default(0),
+  runAt: timestamp('run_at', { precision: 3 }).defaultNow().notNull(),
+  // Set while a worker holds the job; a stale lock means that worker died
+  lockedAt: timestamp('locked_at', { precision: 3 }),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('analysis_jobs_scan_id_idx').on(table.scanId),
+  index('analysis_jobs_status_run_at_idx').on(table.status, table.runAt),
 ]);
+
+// Every analysis a scan has had, oldest first; the scan's own columns hold the latest
+export const scanAnalyses = pgTable('scan_analyses', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  scanId: uuid('scan_id').notNull().references(() => scans.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(),
+  provider: text('provider').notNull(),
+  model: text('model').notNull(),
+  hint: text('hint'),
+  // The model's answer as returned, before the look-alike gate
+  analysis: jsonb('analysis').$type<Analysis>().notNull(),
+  edibility: text('edibility', { enum: ['safe', 'unsafe', 'unverified'] }).notNull(),
+  lookalikeWarnings: jsonb('lookalike_warnings').$type<LookalikeWarning[]>().notNull().default([]),
+  // What the user corrected this answer to, so corrections still measure model accuracy after a re-analysis
+  correction: jsonb('correction').$type<AnalysisCorrection>(),
+  createdAt: timestamp('created_at', { precision: 3 }).defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('scan_analyses_scan_id_version_idx').on(table.scanId, table.version),
+]);
+
+export const scansRelations = relations(scans, ({ one, many }) => ({
+  candidates: many(scanCandidates),
+  analyses: many(scanAnalyses),
+  analysisJob: one(analysisJobs, { fields: [scans.id], references: [analysisJobs.scanId] }),
+}));
+
+export const scanAnalysesRelations = relations(scanAnalyses, ({ one }) => ({
+  scan: one(scans, { fields: [scanAnalyses.scanId], references: [scans.id] }),
+}));
+
+export const scanCandidatesRelations = relations(scanCandidates, ({ one }) => ({
+  scan: one(scans, { fields: [scanCandidates.scanId], references: [scans.id] }),
+}));
@@ -0,0 +1,62 @@
+import { gateway } from '@specific-dev/framework';
+import { streamObject } from 'ai';
+import {
+  analysisSchema,
+  partialAnalysisSchema,
+  type Analysis,
+  type IdentificationProvider,
+  type IdentifyOptions,
+  type ImageMimeType,
+} from './types.js';
+
+export const DEFAULT_GATEWAY_MODEL = 'openai/gpt-4o';
+
+/**
+ * Identifies species with a vision model reached through the AI gateway.
+ */
+export function createGatewayProvider(model: string = DEFAULT_GATEWAY_MODEL): IdentificationProvider {
+  return {
+    name: 'gateway',
+    model,
+    async identify(image: Buffer, mimeType: ImageMimeType, { hint, onPartial }: IdentifyOptions = {}): Promise<Analysis> {
+      const result = streamObject({
+        model: gateway(model),
+        schema: analysisSchema,
+        schemaName: 'FloraFaunaAnalysis',
+        schemaDescription: 'Analysis of a flora or fauna species from an image',
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'image', image: image.toString('base64'), mediaType: mimeType },
+              {
+                type: 'text',
+                text: `Analyze this image of flora or fauna. Identify the species (provide both scientific and common names).
+Assess its safety separately for ingestion, skin contact, inhalation, pets and children: give a severity for each route,
+list any preparation or exposure conditions the verdict depends on (e.g. edible only after cooking) and note allergens.
+Provide your confidence level in the identification (high, medium, or low).
+Include any important warnings or cautions. Provide a detailed description of the species and its characteristics.
+List every species the image could plausibly show as ranked candidates, most likely first, each with its own confidence
+and the features that distinguish it. Always include dangerous look-alikes of edible species.`,
+              },
+              ...(hint
+                ? [{
+                  type: 'text' as const,
+                  text: `The person who took the photo adds: "${hint}". Treat this as a clue, not a fact; if the image contradicts it, go with the image and say so in the warnings.`,
+                }]
+                : []),
+            ],
+          },
+        ],
+      });
+
+      // Draining the stream is what drives generation, so read it even without a listener
+      for await (const partial of result.partialObjectStream) {
+        onPartial?.(partialAnalysisSchema.parse(partial));
+      }
+
+      // Rejects when the finished object does not match the schema
+      return result.object;
+    },
+  };
+}
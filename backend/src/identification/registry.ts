@@ -0,0 +1,33 @@
+import { createGatewayProvider } from './gateway-provider.js';
+import { createStubProvider } from './stub-provider.js';
+import type { IdentificationProvider } from './types.js';
+
+export type IdentificationProviderFactory = (model?: string) => IdentificationProvider;
+
+const factories = new Map<string, IdentificationProviderFactory>([
+  ['gateway', createGatewayProvider],
+  ['stub', createStubProvider],
+]);
+
+/**
+ * Register an additional provider under a name selectable via IDENTIFICATION_PROVIDER.
+ */
+export function registerIdentificationProvider(name: string, factory: IdentificationProviderFactory) {
+  factories.set(name, factory);
+}
+
+/**
+ * Resolve the configured provider.
+ * IDENTIFICATION_PROVIDER picks the provider (default: gateway) and
+ * IDENTIFICATION_MODEL optionally overrides the provider's default model.
+ */
+export function getIdentificationProvider(
+  name: string = process.env.IDENTIFICATION_PROVIDER || 'gateway',
+  model: string | undefined = process.env.IDENTIFICATION_MODEL || undefined
+): IdentificationProvider {
+  const factory = factories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown identification provider "${name}". Available: ${[...factories.keys()].join(', ')}`);
+  }
+  return factory(model);
+}
@@ -0,0 +1,20 @@
+import { createHash } from 'node:crypto';
+import fixtures from './fixtures/stub-analyses.json';
+import { analysisSchema, type Analysis, type IdentificationProvider, type ImageMimeType } from './types.js';
+
+const stubAnalyses: Analysis[] = fixtures.map((fixture) => analysisSchema.parse(fixture));
+
+/**
+ * Offline provider that answers from bundled fixtures. The fixture is chosen
+ * from a hash of the image bytes, so the same image always yields the same result.
+ */
+export function createStubProvider(model: string = 'fixtures'): IdentificationProvider {
+  return {
+    name: 'stub',
+    model,
+    async identify(image: Buffer, _mimeType: ImageMimeType): Promise<Analysis> {
+      const digest = createHash('sha256').update(image).digest();
+      return stubAnalyses[digest.readUInt32BE(0) % stubAnalyses.length];
+    },
+  };
+}
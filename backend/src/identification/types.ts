@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { safetyAssessmentSchema } from '../safety/assessment.js';
+
+// Zod schema for a single ranked identification candidate
+export const candidateSchema = z.object({
+  species: z.string().describe('Scientific name of the candidate species'),
+  commonName: z.string().describe('Common name of the candidate species'),
+  confidence: z.enum(['high', 'medium', 'low']).describe('Confidence that the image shows this candidate'),
+  distinguishingFeatures: z.string().describe('Features that tell this candidate apart from the other candidates'),
+});
+
+// Zod schema for flora/fauna analysis
+export const analysisSchema = z.object({
+  species: z.string().describe('Scientific name of the species'),
+  commonName: z.string().describe('Common name of the species'),
+  safety: safetyAssessmentSchema.describe('Graded safety assessment for each exposure route'),
+  confidence: z.enum(['high', 'medium', 'low']).describe('Confidence level of the identification'),
+  warnings: z.string().describe('Any warnings or cautions about this species'),
+  description: z.string().describe('Detailed description of the species and its characteristics'),
+  candidates: z.array(candidateSchema).describe(
+    'Ranked list of candidate species, most likely first. The first entry is the species above; include plausible look-alikes after it'
+  ),
+});
+
+// Zod schema for the text fields of an analysis the model is still writing.
+// Strings may be cut off mid-word; a confidence that is not complete yet is dropped.
+export const partialAnalysisSchema = z.object({
+  species: z.string().optional(),
+  commonName: z.string().optional(),
+  confidence: analysisSchema.shape.confidence.optional().catch(undefined),
+  warnings: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export type Candidate = z.infer<typeof candidateSchema>;
+export type Analysis = z.infer<typeof analysisSchema>;
+export type PartialAnalysis = z.infer<typeof partialAnalysisSchema>;
+
+export type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+export interface IdentifyOptions {
+  // Free-text context from the user, e.g. "it's a mushroom, grew on oak"
+  hint?: string;
+  onPartial?: (partial: PartialAnalysis) => void;
+}
+
+/**
+ * A source of species identifications for an uploaded image.
+ * `name` and `model` are persisted on every scan the provider produces.
+ * Providers that generate incrementally report the fields written so far
+ * through `onPartial`; others may never call it. A `hint` is a clue to weigh
+ * against the image, not a fact to repeat.
+ */
+export interface IdentificationProvider {
+  readonly name: string;
+  readonly model: string;
+  identify(image: Buffer, mimeType: ImageMimeType, options?: IdentifyOptions): Promise<Analysis>;
+}
@@ -1,7 +1,11 @@
 import { createApplication } from "@specific-dev/framework";
 import * as appSchema from './db/schema.js';
 import * as authSchema from './db/auth-schema.js';
-import { registerScansRoutes } from './routes/scans.js';
+import { createAnalysisWorker } from './analysis/worker.js';
+import { getIdentificationProvider } from './identification/registry.js';
+import { registerApiRoutes } from './routes/api.js';
+import { registerDocsRoutes } from './routes/docs.js';
+import { syncSpeciesCatalog } from './species/catalog.js';
 
 // Combine both schemas
 const schema = { ...appSchema, ...authSchema };
@@ -16,9 +20,18 @@ export type App = typeof app;
 app.withAuth();
 app.withStorage();
 
-// Register routes - add your route modules here
+// Analyses uploaded scans in the background, with the configured identification provider
+const analysisWorker = createAnalysisWorker(app, getIdentificationProvider());
+app.fastify.addHook('onClose', () => analysisWorker.stop());
+
+// Register routes - add your route modules to registerApiRoutes
 // IMPORTANT: Always use registration functions to avoid circular dependency issues
-registerScansRoutes(app);
+// Docs first: the OpenAPI document only sees routes registered after it
+await registerDocsRoutes(app);
+registerApiRoutes(app, analysisWorker);
 
 await app.run();
+// Before the worker starts, so the scans it analyses link to the current catalog
+await syncSpeciesCatalog(app);
+analysisWorker.start();
 app.logger.info('Application running');
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+export const LOCATION_PRECISIONS = ['exact', 'approximate', 'off'] as const;
+export type LocationPrecision = (typeof LOCATION_PRECISIONS)[number];
+
+// Two decimal places is roughly 1.1 km of latitude
+const APPROXIMATE_DECIMALS = 2;
+
+export const coordinatesSchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+});
+
+export type Coordinates = z.infer<typeof coordinatesSchema>;
+
+/**
+ * Reduce coordinates to the user's chosen precision before they are stored
+ */
+export function applyLocationPrecision(
+  coordinates: Coordinates | null,
+  precision: LocationPrecision
+): Coordinates | null {
+  if (!coordinates || precision === 'off') return null;
+  if (precision === 'exact') return coordinates;
+
+  const factor = 10 ** APPROXIMATE_DECIMALS;
+  return {
+    latitude: Math.round(coordinates.latitude * factor) / factor,
+    longitude: Math.round(coordinates.longitude * factor) / factor,
+  };
+}
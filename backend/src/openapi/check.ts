@@ -0,0 +1,15 @@
+import { describeApi } from './document.js';
+import { findApiDrift } from './files.js';
+
+/**
+ * Fail when the handlers and the committed OpenAPI document or generated
+ * client have drifted apart; npm test runs the same check.
+ */
+const problems = await findApiDrift(await describeApi());
+
+if (problems.length > 0) {
+  problems.forEach((problem) => console.error(problem));
+  process.exit(1);
+}
+
+console.log('OpenAPI document and generated client match the routes');
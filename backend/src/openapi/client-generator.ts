@@ -0,0 +1,180 @@
+import type { OpenAPIV3 } from 'openapi-types';
+
+/**
+ * Generates the typed API client for the Expo app from the OpenAPI
+ * document. The output only depends on a transport with the signature of
+ * the app's authenticatedApiCall, so it stays free of app imports.
+ */
+
+type Schema = OpenAPIV3.SchemaObject;
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+const HEADER = `/**
+ * Generated from the backend's OpenAPI document by \`npm run openapi:generate\`
+ * in backend/. Do not edit by hand; \`npm run openapi:check\` fails when this
+ * file is out of date.
+ */
+`;
+
+const HELPERS = `export type ApiTransport = (endpoint: string, init: RequestInit) => Promise<unknown>;
+
+const definedValues = (values: object): Record<string, string> => {
+  const defined: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && value !== null) {
+      defined[key] = String(value);
+    }
+  }
+  return defined;
+};
+
+const queryString = (query: object): string => {
+  const search = new URLSearchParams(definedValues(query)).toString();
+  return search ? \`?\${search}\` : "";
+};
+`;
+
+const pascalCase = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const propertyName = (name: string) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name));
+
+function schemaToType(schema: Schema, indent: string): string {
+  let type: string;
+
+  if (schema.enum) {
+    type = schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  } else if (schema.anyOf || schema.oneOf) {
+    type = (schema.anyOf ?? schema.oneOf)!.map((option) => schemaToType(option as Schema, indent)).join(' | ');
+  } else {
+    switch (schema.type) {
+      case 'string':
+        type = schema.format === 'binary' ? 'Blob' : 'string';
+        break;
+      case 'number':
+      case 'integer':
+        type = 'number';
+        break;
+      case 'boolean':
+        type = 'boolean';
+        break;
+      case 'array': {
+        const items = schema.items as Schema;
+        const isUnion = items.anyOf || items.oneOf || items.nullable || (items.enum?.length ?? 0) > 1;
+        type = isUnion ? `(${schemaToType(items, indent)})[]` : `${schemaToType(items, indent)}[]`;
+        break;
+      }
+      case 'object':
+        type = objectToType(schema, indent);
+        break;
+      default:
+        type = 'unknown';
+    }
+  }
+
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function objectToType(schema: Schema, indent: string): string {
+  const properties = Object.entries(schema.properties ?? {});
+  if (properties.length === 0) {
+    return 'Record<string, unknown>';
+  }
+
+  const required = new Set(schema.required ?? []);
+  const inner = `${indent}  `;
+  const lines = properties.map(([name, property]) => {
+    const optional = required.has(name) ? '' : '?';
+    return `${inner}${propertyName(name)}${optional}: ${schemaToType(property as Schema, inner)};`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function parametersToType(parameters: OpenAPIV3.ParameterObject[]): string {
+  return objectToType(
+    {
+      type: 'object',
+      properties: Object.fromEntries(parameters.map((parameter) => [parameter.name, parameter.schema as Schema])),
+      required: parameters.filter((parameter) => parameter.required).map((parameter) => parameter.name),
+    },
+    ''
+  );
+}
+
+/**
+ * TypeScript source of the client for every operation in the document
+ */
+export function generateClient(document: OpenAPIV3.Document): string {
+  const types: string[] = [];
+  const methods: string[] = [];
+
+  for (const [path, pathItem] of Object.entries(document.paths)) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem?.[method];
+      if (!operation?.operationId) {
+        continue;
+      }
+
+      const name = pascalCase(operation.operationId);
+      const parameters = (operation.parameters ?? []) as OpenAPIV3.ParameterObject[];
+      const args: string[] = [];
+      const init = [`method: ${JSON.stringify(method.toUpperCase())}`];
+
+      const pathParameters = parameters.filter((parameter) => parameter.in === 'path');
+      if (pathParameters.length > 0) {
+        types.push(`export type ${name}Params = ${parametersToType(pathParameters)};`);
+        args.push(`params: ${name}Params`);
+      }
+
+      const queryParameters = parameters.filter((parameter) => parameter.in === 'query');
+      if (queryParameters.length > 0) {
+        types.push(`export type ${name}Query = ${parametersToType(queryParameters)};`);
+        const optional = queryParameters.every((parameter) => !parameter.required);
+        args.push(optional ? `query: ${name}Query = {}` : `query: ${name}Query`);
+      }
+
+      const content = (operation.requestBody as OpenAPIV3.RequestBodyObject | undefined)?.content;
+      if (content?.['application/json']) {
+        types.push(`export type ${name}Body = ${schemaToType(content['application/json'].schema as Schema, '')};`);
+        args.push(`body: ${name}Body`);
+        init.push('body: JSON.stringify(body)');
+      } else if (content?.['multipart/form-data']) {
+        args.push('body: FormData');
+        init.push('body');
+      }
+
+      const headerParameters = parameters.filter((parameter) => parameter.in === 'header');
+      if (headerParameters.length > 0) {
+        types.push(`export type ${name}Headers = ${parametersToType(headerParameters)};`);
+        args.push(`headers: ${name}Headers = {}`);
+        init.push('headers: definedValues(headers)');
+      }
+
+      const success = (operation.responses['200'] as OpenAPIV3.ResponseObject | undefined)?.content?.['application/json'];
+      const responseType = success ? `${name}Response` : 'unknown';
+      if (success) {
+        types.push(`export type ${name}Response = ${schemaToType(success.schema as Schema, '')};`);
+      }
+
+      const endpoint = path.replace(/\{(\w+)\}/g, (_, parameter) => `\${encodeURIComponent(params.${parameter})}`);
+      const url = queryParameters.length > 0 ? `\`${endpoint}\${queryString(query)}\`` : `\`${endpoint}\``;
+
+      methods.push(
+        [
+          `  /** ${operation.summary ?? operation.operationId} */`,
+          `  ${operation.operationId}: (${args.join(', ')}) =>`,
+          `    transport(${url}, { ${init.join(', ')} }) as Promise<${responseType}>,`,
+        ].join('\n')
+      );
+    }
+  }
+
+  return [
+    HEADER,
+    HELPERS,
+    types.join('\n\n'),
+    '',
+    `export const createApi = (transport: ApiTransport) => ({\n${methods.join('\n\n')}\n});`,
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,35 @@
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { generateClient } from './client-generator.js';
+import type { ApiDescription } from './document.js';
+
+// Generated files, relative to this module so the scripts work from any directory
+export const OPENAPI_DOCUMENT_PATH = fileURLToPath(new URL('../../openapi.json', import.meta.url));
+export const GENERATED_CLIENT_PATH = fileURLToPath(new URL('../../../utils/generated/api.ts', import.meta.url));
+
+/**
+ * Expected contents of every generated file, keyed by path
+ */
+export function renderGeneratedFiles({ document }: ApiDescription): Map<string, string> {
+  return new Map([
+    [OPENAPI_DOCUMENT_PATH, `${JSON.stringify(document, null, 2)}\n`],
+    [GENERATED_CLIENT_PATH, generateClient(document)],
+  ]);
+}
+
+/**
+ * Ways the handlers and the committed OpenAPI document or generated client
+ * have drifted apart: routes registered without a contract, and generated
+ * files that no longer match the routes. Empty when they agree.
+ */
+export async function findApiDrift(description: ApiDescription): Promise<string[]> {
+  const problems = description.undocumentedRoutes.map((route) => `Route has no contract: ${route}`);
+
+  for (const [path, expected] of renderGeneratedFiles(description)) {
+    const actual = await readFile(path, 'utf8').catch(() => null);
+    if (actual !== expected) {
+      problems.push(`${path} is out of date; run npm run openapi:generate`);
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,19 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { describeApi } from './document.js';
+import { renderGeneratedFiles } from './files.js';
+
+/**
+ * Write the OpenAPI document and the app's API client
+ */
+const description = await describeApi();
+
+for (const route of description.undocumentedRoutes) {
+  console.warn(`Route without a contract is missing from the document: ${route}`);
+}
+
+for (const [path, contents] of renderGeneratedFiles(description)) {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, contents);
+  console.log(`Wrote ${path}`);
+}
@@ -0,0 +1,13 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { describeApi } from './document.js';
+import { findApiDrift } from './files.js';
+
+test('every route has a contract and the generated files match them', async () => {
+  assert.deepEqual(await findApiDrift(await describeApi()), []);
+});
+
+test('generated schemas leave format checks to the format, not zod-specific patterns', async () => {
+  const { document } = await describeApi();
+  assert.doesNotMatch(JSON.stringify(document), /"pattern"/);
+});
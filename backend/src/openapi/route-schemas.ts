@@ -0,0 +1,255 @@
+import { z } from 'zod';
+import type { FastifySchema } from 'fastify';
+import {
+  acknowledgeLookalikesResponseSchema,
+  boundingBoxQuerySchema,
+  deleteScanResponseSchema,
+  errorResponseSchema,
+  idempotencyKeySchema,
+  listScansQuerySchema,
+  mapScansResponseSchema,
+  reanalyzeScanBodySchema,
+  scanAnalysesResponseSchema,
+  scanDetailResponseSchema,
+  scanIdParamsSchema,
+  scanListResponseSchema,
+  scanSchema,
+  scanUploadResponseSchema,
+  updateScanBodySchema,
+  UPLOAD_PROGRESS_CONTENT_TYPE,
+  uploadProgressEventSchema,
+  uploadScanFieldsSchema,
+} from '../contracts/scans.js';
+import { updateSettingsBodySchema, userSettingsSchema } from '../contracts/settings.js';
+import { speciesIdParamsSchema, speciesSchema } from '../contracts/species.js';
+
+// Swagger-only keywords on top of Fastify's own schema keys
+export interface DocumentedRouteSchema extends FastifySchema {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  consumes?: string[];
+  security?: Record<string, string[]>[];
+}
+
+// Zod writes its own regex next to formats such as uuid and date-time, and the
+// regex changes between zod releases; the format says the same, so keep only that
+const toJsonSchema = (schema: z.ZodType, io: 'input' | 'output') =>
+  z.toJSONSchema(schema, {
+    target: 'openapi-3.0',
+    io,
+    unrepresentable: 'any',
+    override: ({ jsonSchema }) => {
+      if (jsonSchema.format) {
+        delete jsonSchema.pattern;
+      }
+    },
+  });
+
+const errorResponse = (description: string) => ({ description, ...toJsonSchema(errorResponseSchema, 'output') });
+
+const okResponse = (schema: z.ZodType) => ({ description: 'Success', ...toJsonSchema(schema, 'output') });
+
+const authenticated = (tag: string) => ({
+  tags: [tag],
+  security: [{ bearerAuth: [] }],
+});
+
+const scanIdParams = toJsonSchema(scanIdParamsSchema, 'input');
+
+const uploadFields = toJsonSchema(uploadScanFieldsSchema, 'input');
+
+/**
+ * OpenAPI description of every route in registerScansRoutes, built from the
+ * same contracts the handlers validate and serialise with.
+ */
+export const scanRouteSchemas = {
+  upload: {
+    ...authenticated('scans'),
+    operationId: 'uploadScan',
+    summary: 'Upload a photo and queue it for identification',
+    consumes: ['multipart/form-data'],
+    headers: toJsonSchema(
+      z.object({
+        'idempotency-key': idempotencyKeySchema.optional(),
+        accept: z.string().optional().describe(`${UPLOAD_PROGRESS_CONTENT_TYPE} streams progress events, one per line`),
+      }),
+      'input'
+    ),
+    body: {
+      ...uploadFields,
+      description: 'Text fields must precede the image part',
+      required: ['image'],
+      properties: {
+        ...uploadFields.properties,
+        image: { type: 'string', format: 'binary', description: 'JPEG, PNG, GIF, WebP or HEIC, at most 10 MB' },
+      },
+    },
+    response: {
+      200: {
+        description: 'The pending scan, or progress events that follow its analysis when streaming',
+        content: {
+          'application/json': { schema: toJsonSchema(scanUploadResponseSchema, 'output') },
+          [UPLOAD_PROGRESS_CONTENT_TYPE]: { schema: toJsonSchema(uploadProgressEventSchema, 'output') },
+        },
+      },
+      400: errorResponse('Missing image or invalid fields'),
+      409: errorResponse('Idempotency key reused with a different image, or still in progress'),
+      413: errorResponse('Image too large'),
+      415: errorResponse('Not a supported image type'),
+      422: errorResponse('Image dimensions out of range'),
+    },
+  },
+  list: {
+    ...authenticated('scans'),
+    operationId: 'listScans',
+    summary: "Page through the user's scans, newest first",
+    querystring: toJsonSchema(listScansQuerySchema, 'input'),
+    response: {
+      200: okResponse(scanListResponseSchema),
+      400: errorResponse('Invalid query or cursor'),
+    },
+  },
+  boundingBox: {
+    ...authenticated('scans'),
+    operationId: 'listScansInBoundingBox',
+    summary: "The user's located scans inside a bounding box",
+    querystring: toJsonSchema(boundingBoxQuerySchema, 'input'),
+    response: {
+      200: okResponse(mapScansResponseSchema),
+      400: errorResponse('Invalid bounding box'),
+    },
+  },
+  get: {
+    ...authenticated('scans'),
+    operationId: 'getScan',
+    summary: 'A scan with its ranked candidate species, or the status of its analysis',
+    params: scanIdParams,
+    response: {
+      200: okResponse(scanDetailResponseSchema),
+      400: errorResponse('Invalid scan id'),
+      403: errorResponse('Scan belongs to another user'),
+      404: errorResponse('Scan not found'),
+    },
+  },
+  reanalyze: {
+    ...authenticated('scans'),
+    operationId: 'reanalyzeScan',
+    summary: 'Queue another analysis of the stored photo, optionally with a hint from the user',
+    params: scanIdParams,
+    body: toJsonSchema(reanalyzeScanBodySchema, 'input'),
+    response: {
+      200: okResponse(scanDetailResponseSchema),
+      400: errorResponse('Invalid scan id or hint'),
+      403: errorResponse('Scan belongs to another user'),
+      404: errorResponse('Scan not found'),
+      409: errorResponse('Scan is already being analysed'),
+      422: errorResponse('Stored image is not a supported type'),
+    },
+  },
+  listAnalyses: {
+    ...authenticated('scans'),
+    operationId: 'listScanAnalyses',
+    summary: 'Every analysis of a scan, newest first',
+    params: scanIdParams,
+    response: {
+      200: okResponse(scanAnalysesResponseSchema),
+      400: errorResponse('Invalid scan id'),
+      403: errorResponse('Scan belongs to another user'),
+      404: errorResponse('Scan not found'),
+    },
+  },
+  acknowledgeLookalikes: {
+    ...authenticated('scans'),
+    operationId: 'acknowledgeLookalikes',
+    summary: 'Record that the user has read the look-alike warnings',
+    params: scanIdParams,
+    response: {
+      200: okResponse(acknowledgeLookalikesResponseSchema),
+      400: errorResponse('Invalid scan id'),
+      403: errorResponse('Scan belongs to another user'),
+      404: errorResponse('Scan not found'),
+      409: errorResponse('Scan not analysed yet'),
+    },
+  },
+  update: {
+    ...authenticated('scans'),
+    operationId: 'updateScan',
+    summary: 'Correct the identification or edit the notes of a scan',
+    params: scanIdParams,
+    body: toJsonSchema(updateScanBodySchema, 'input'),
+    response: {
+      200: okResponse(scanSchema),
+      400: errorResponse('Invalid scan id or update'),
+      403: errorResponse('Scan belongs to another user'),
+      404: errorResponse('Scan not found'),
+      409: errorResponse('Scan not analysed yet'),
+    },
+  },
+  delete: {
+    ...authenticated('scans'),
+    operationId: 'deleteScan',
+    summary: 'Delete a scan and its images',
+    params: scanIdParams,
+    response: {
+      200: okResponse(deleteScanResponseSchema),
+      400: errorResponse('Invalid scan id'),
+      403: errorResponse('Scan belongs to another user'),
+      404: errorResponse('Scan not found'),
+    },
+  },
+} satisfies Record<string, DocumentedRouteSchema>;
+
+/**
+ * OpenAPI description of every route in registerSpeciesRoutes
+ */
+export const speciesRouteSchemas = {
+  get: {
+    ...authenticated('species'),
+    operationId: 'getSpecies',
+    summary: "A catalog species with its curated safety data and the number of the user's scans linked to it",
+    params: toJsonSchema(speciesIdParamsSchema, 'input'),
+    response: {
+      200: okResponse(speciesSchema),
+      400: errorResponse('Invalid species id'),
+      404: errorResponse('Species not found'),
+    },
+  },
+} satisfies Record<string, DocumentedRouteSchema>;
+
+/**
+ * OpenAPI description of every route in registerSettingsRoutes
+ */
+export const settingsRouteSchemas = {
+  get: {
+    ...authenticated('settings'),
+    operationId: 'getSettings',
+    summary: "The user's settings, or the defaults until they save any",
+    response: {
+      200: okResponse(userSettingsSchema),
+    },
+  },
+  update: {
+    ...authenticated('settings'),
+    operationId: 'updateSettings',
+    summary: "Update the user's settings; location precision applies to scans uploaded from then on",
+    body: toJsonSchema(updateSettingsBodySchema, 'input'),
+    response: {
+      200: okResponse(userSettingsSchema),
+      400: errorResponse('Invalid settings update'),
+    },
+  },
+} satisfies Record<string, DocumentedRouteSchema>;
+
+/**
+ * Route options that attach a schema for the OpenAPI document only. The
+ * handlers validate and serialise with the Zod contracts themselves, so
+ * Fastify's own validation and serialisation are switched off.
+ */
+export function documented(schema: DocumentedRouteSchema) {
+  return {
+    schema,
+    validatorCompiler: () => () => true,
+    serializerCompiler: () => (data: unknown) => JSON.stringify(data),
+  };
+}
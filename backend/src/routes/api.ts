@@ -0,0 +1,15 @@
+import type { App } from '../index.js';
+import type { AnalysisWorker } from '../analysis/worker.js';
+import { registerScansRoutes } from './scans.js';
+import { registerSettingsRoutes } from './settings.js';
+import { registerSpeciesRoutes } from './species.js';
+
+/**
+ * Register every API route. The OpenAPI document is built from the same
+ * registrations, so a route added here without a contract fails openapi:check.
+ */
+export function registerApiRoutes(app: App, analysisWorker: AnalysisWorker) {
+  registerScansRoutes(app, analysisWorker);
+  registerSettingsRoutes(app);
+  registerSpeciesRoutes(app);
+}
@@ -0,0 +1,19 @@
+import type { App } from '../index.js';
+import swagger from '@fastify/swagger';
+import { OPENAPI_OPTIONS } from '../openapi/document.js';
+
+/**
+ * Collects route schemas into an OpenAPI document. Must be registered before
+ * the routes it describes, since only routes added afterwards are seen.
+ */
+export async function registerDocsRoutes(app: App) {
+  await app.fastify.register(swagger, OPENAPI_OPTIONS);
+
+  /**
+   * GET /api/docs
+   * OpenAPI 3 document for the API
+   */
+  app.fastify.get('/api/docs', async () => {
+    return app.fastify.swagger();
+  });
+}
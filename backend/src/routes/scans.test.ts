@@ -0,0 +1,326 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { after, before, test } from 'node:test';
+import sharp from 'sharp';
+import { eq } from 'drizzle-orm';
+import { hashRequestBody } from '../db/idempotency.js';
+import * as schema from '../db/schema.js';
+import { createStubProvider } from '../identification/stub-provider.js';
+import { createTestApp, type TestApp } from '../testing/test-app.js';
+
+const USER_ID = 'test-user';
+
+let testApp: TestApp;
+
+before(async () => {
+  testApp = await createTestApp();
+  await testApp.createUser(USER_ID);
+});
+
+after(async () => {
+  await testApp.close();
+});
+
+const photo = (color: { r: number; g: number; b: number }) =>
+  sharp({ create: { width: 320, height: 240, channels: 3, background: color } }).jpeg().toBuffer();
+
+// A multipart body as the app sends it, encoded the way fetch would
+const multipartBody = async (image: Buffer, fields: Record<string, string> = {}) => {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    form.append(name, value);
+  }
+  form.append('image', new Blob([image], { type: 'image/jpeg' }), 'photo.jpg');
+  const request = new Request('http://localhost/', { method: 'POST', body: form });
+  return {
+    payload: Buffer.from(await request.arrayBuffer()),
+    headers: { 'content-type': request.headers.get('content-type')! },
+  };
+};
+
+const upload = async (image: Buffer, fields?: Record<string, string>, extraHeaders: Record<string, string> = {}) => {
+  const { payload, headers } = await multipartBody(image, fields);
+  return testApp.app.fastify.inject({
+    method: 'POST',
+    url: '/api/scans/upload',
+    payload,
+    headers: { ...headers, ...extraHeaders, authorization: testApp.authorization(USER_ID) },
+  });
+};
+
+const getScan = (id: string) =>
+  testApp.app.fastify.inject({
+    method: 'GET',
+    url: `/api/scans/${id}`,
+    headers: { authorization: testApp.authorization(USER_ID) },
+  });
+
+// Poll like the app does until the worker has finished with the scan
+const waitForAnalysis = async (id: string) => {
+  const deadline = Date.now() + 15_000;
+  while (Date.now() < deadline) {
+    const scan = (await getScan(id)).json();
+    if (scan.status === 'complete' || scan.status === 'failed') {
+      return scan;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error(`Scan ${id} was not analysed in time`);
+};
+
+const getAnalyses = (id: string) =>
+  testApp.app.fastify.inject({
+    method: 'GET',
+    url: `/api/scans/${id}/analyses`,
+    headers: { authorization: testApp.authorization(USER_ID) },
+  });
+
+const reanalyze = (id: string, body: { hint?: string } = {}) =>
+  testApp.app.fastify.inject({
+    method: 'POST',
+    url: `/api/scans/${id}/reanalyze`,
+    payload: body,
+    headers: { authorization: testApp.authorization(USER_ID) },
+  });
+
+// Poll until the scan's history has reached a version, e.g. after a re-analysis
+const waitForVersion = async (id: string, version: number) => {
+  const deadline = Date.now() + 15_000;
+  while (Date.now() < deadline) {
+    const { analyses } = (await getAnalyses(id)).json();
+    if (analyses[0]?.version >= version) {
+      return (await getScan(id)).json();
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error(`Scan ${id} did not reach analysis version ${version} in time`);
+};
+
+test('an uploaded photo is stored, analysed by the stub provider and saved as a complete scan', async () => {
+  const response = await upload(await photo({ r: 40, g: 120, b: 60 }));
+  assert.equal(response.statusCode, 200);
+  const { scanId, status } = response.json();
+  assert.equal(status, 'pending');
+
+  const scan = await waitForAnalysis(scanId);
+  assert.equal(scan.status, 'complete');
+
+  // The stub answers from the stored photo, so the same bytes give the same fixture
+  const stored = Buffer.from(scan.imageUrl.split(',')[1], 'base64');
+  const expected = await createStubProvider().identify(stored, 'image/jpeg');
+  assert.equal(scan.species, expected.species);
+  assert.equal(scan.candidates.length, expected.candidates.length);
+  assert.deepEqual(Object.keys(scan.safetyCitations).sort(), [
+    'children',
+    'ingestion',
+    'inhalation',
+    'pets',
+    'skinContact',
+    'warnings',
+  ]);
+  assert.ok(scan.presentation);
+
+  const analyses = await getAnalyses(scanId);
+  assert.deepEqual(
+    analyses.json().analyses.map(({ version, provider }: { version: number; provider: string }) => ({ version, provider })),
+    [{ version: 1, provider: 'stub' }]
+  );
+});
+
+test('correcting the species reassesses its safety from the curated dataset', async () => {
+  const { scanId } = (await upload(await photo({ r: 200, g: 180, b: 40 }))).json();
+  await waitForAnalysis(scanId);
+
+  const response = await testApp.app.fastify.inject({
+    method: 'PATCH',
+    url: `/api/scans/${scanId}`,
+    payload: { species: 'Amanita phalloides', commonName: 'Death cap' },
+    headers: { authorization: testApp.authorization(USER_ID) },
+  });
+  assert.equal(response.statusCode, 200);
+  const scan = response.json();
+  assert.equal(scan.acceptedName, 'Amanita phalloides');
+  assert.equal(scan.safety.ingestion.severity, 'deadly');
+  assert.equal(scan.safetySources.ingestion, 'curated');
+  assert.equal(scan.edibility, 'unsafe');
+  assert.deepEqual(scan.safetyConflicts, []);
+  assert.ok(scan.correctedAt);
+});
+
+test('a correction stays in the analysis history when the scan is analysed again', async () => {
+  const { scanId } = (await upload(await photo({ r: 90, g: 60, b: 30 }))).json();
+  const analysed = await waitForAnalysis(scanId);
+
+  await testApp.app.fastify.inject({
+    method: 'PATCH',
+    url: `/api/scans/${scanId}`,
+    payload: { species: 'Amanita phalloides', commonName: 'Death cap' },
+    headers: { authorization: testApp.authorization(USER_ID) },
+  });
+  const reanalysis = await reanalyze(scanId);
+  assert.equal(reanalysis.statusCode, 200);
+  const reanalysed = await waitForVersion(scanId, 2);
+  assert.equal(reanalysed.species, analysed.species);
+  assert.equal(reanalysed.correctedAt, null);
+
+  const { analyses } = (await getAnalyses(scanId)).json();
+  assert.deepEqual(analyses.map(({ version }: { version: number }) => version), [2, 1]);
+  assert.equal(analyses[0].correction, null);
+  assert.equal(analyses[1].analysis.species, analysed.species);
+  assert.deepEqual(
+    { species: analyses[1].correction.species, commonName: analyses[1].correction.commonName },
+    { species: 'Amanita phalloides', commonName: 'Death cap' }
+  );
+});
+
+test('re-analysing a scan adds a version with the user\'s hint', async () => {
+  const { scanId } = (await upload(await photo({ r: 30, g: 90, b: 150 }))).json();
+  await waitForAnalysis(scanId);
+
+  const response = await reanalyze(scanId, { hint: "it's a mushroom, grew on oak" });
+  assert.equal(response.statusCode, 200);
+  await waitForVersion(scanId, 2);
+
+  const { analyses } = (await getAnalyses(scanId)).json();
+  assert.deepEqual(
+    analyses.map(({ version, hint }: { version: number; hint: string | null }) => ({ version, hint })),
+    [{ version: 2, hint: "it's a mushroom, grew on oak" }, { version: 1, hint: null }]
+  );
+});
+
+test('a scan with an analysis queued cannot be re-analysed', async () => {
+  const { scanId } = (await upload(await photo({ r: 150, g: 30, b: 90 }))).json();
+  await waitForAnalysis(scanId);
+
+  // Not due for an hour, so the worker leaves it queued
+  await testApp.app.db.insert(schema.analysisJobs)
+    .values({ scanId, mimeType: 'image/jpeg', runAt: new Date(Date.now() + 3_600_000) });
+  const response = await reanalyze(scanId);
+  assert.equal(response.statusCode, 409);
+  assert.equal(response.json().code, 'analysis_in_progress');
+  await testApp.app.db.delete(schema.analysisJobs).where(eq(schema.analysisJobs.scanId, scanId));
+});
+
+test('a failed scan goes back to pending and is analysed again', async () => {
+  const { scanId } = (await upload(await photo({ r: 60, g: 60, b: 60 }))).json();
+  await waitForAnalysis(scanId);
+  // As the worker leaves a scan whose job ran out of attempts
+  await testApp.app.db.update(schema.scans).set({ status: 'failed' }).where(eq(schema.scans.id, scanId));
+  await testApp.app.db.insert(schema.analysisJobs).values({ scanId, mimeType: 'image/jpeg', status: 'dead' });
+
+  const response = await reanalyze(scanId);
+  assert.equal(response.statusCode, 200);
+  assert.notEqual(response.json().status, 'failed');
+  assert.equal((await waitForAnalysis(scanId)).status, 'complete');
+});
+
+test('an HEVC-coded HEIC photo, as iPhones take them, is stored as JPEG', async () => {
+  const heic = await readFile(new URL('../storage/fixtures/hevc.heic', import.meta.url));
+  const response = await upload(heic);
+  assert.equal(response.statusCode, 200);
+
+  const scan = await waitForAnalysis(response.json().scanId);
+  const stored = Buffer.from(scan.imageUrl.split(',')[1], 'base64');
+  assert.equal((await sharp(stored).metadata()).format, 'jpeg');
+});
+
+test('a retry with the same Idempotency-Key and image replays the first scan', async () => {
+  const image = await photo({ r: 90, g: 60, b: 30 });
+  const headers = { 'idempotency-key': 'retry-same-image' };
+  const first = await upload(image, {}, headers);
+  assert.equal(first.statusCode, 200);
+  const storedBefore = testApp.stored.size;
+
+  const retry = await upload(image, {}, headers);
+  assert.equal(retry.statusCode, 200);
+  assert.equal(retry.json().scanId, first.json().scanId);
+  assert.equal(testApp.stored.size, storedBefore);
+  await waitForAnalysis(first.json().scanId);
+});
+
+test('an Idempotency-Key reused for a different image is refused', async () => {
+  const headers = { 'idempotency-key': 'retry-other-image' };
+  const first = await upload(await photo({ r: 30, g: 60, b: 90 }), {}, headers);
+  assert.equal(first.statusCode, 200);
+  await waitForAnalysis(first.json().scanId);
+
+  const reused = await upload(await photo({ r: 200, g: 200, b: 20 }), {}, headers);
+  assert.equal(reused.statusCode, 409);
+  assert.equal(reused.json().code, 'idempotency_key_reused');
+});
+
+test('a retry while the first request with its Idempotency-Key is still running is refused', async () => {
+  const image = await photo({ r: 10, g: 10, b: 200 });
+  // Claimed by a request that has not saved its scan yet
+  await testApp.app.db.insert(schema.idempotencyKeys).values({
+    userId: USER_ID,
+    key: 'retry-in-progress',
+    requestHash: hashRequestBody(image),
+    expiresAt: new Date(Date.now() + 60_000),
+  });
+
+  const response = await upload(image, {}, { 'idempotency-key': 'retry-in-progress' });
+  assert.equal(response.statusCode, 409);
+  assert.equal(response.json().code, 'idempotency_key_in_progress');
+});
+
+test('an upload with a clientScanId already saved returns that scan', async () => {
+  const clientScanId = '6f1c2a3e-5b4d-4c7e-9a8f-0123456789ab';
+  const first = await upload(await photo({ r: 120, g: 30, b: 120 }), { clientScanId });
+  assert.equal(first.statusCode, 200);
+  await waitForAnalysis(first.json().scanId);
+
+  // A re-sent photo may be re-encoded, so a different image still matches
+  const duplicate = await upload(await photo({ r: 121, g: 31, b: 121 }), { clientScanId });
+  assert.equal(duplicate.statusCode, 200);
+  assert.equal(duplicate.json().scanId, first.json().scanId);
+  const saved = await testApp.app.db.select().from(schema.scans).where(eq(schema.scans.clientScanId, clientScanId));
+  assert.equal(saved.length, 1);
+});
+
+test('content that is not an image is rejected before anything is stored', async () => {
+  const before = testApp.stored.size;
+  const response = await upload(Buffer.from('definitely not a photo'));
+  assert.equal(response.statusCode, 415);
+  assert.equal(response.json().code, 'unsupported_media_type');
+  assert.equal(testApp.stored.size, before);
+});
+
+test('uploads need a signed-in user', async () => {
+  const { payload, headers } = await multipartBody(await photo({ r: 0, g: 0, b: 0 }));
+  const response = await testApp.app.fastify.inject({ method: 'POST', url: '/api/scans/upload', payload, headers });
+  assert.equal(response.statusCode, 401);
+});
+
+test('a permissive verdict at too low a confidence is held back in the scan and the safety filters', async () => {
+  const userId = 'cautious-user';
+  await testApp.createUser(userId);
+  const list = async (query: string) => {
+    const response = await testApp.app.fastify.inject({
+      method: 'GET',
+      url: `/api/scans?${query}`,
+      headers: { authorization: testApp.authorization(userId) },
+    });
+    assert.equal(response.statusCode, 200);
+    return response.json().scans.map((scan: { id: string }) => scan.id).sort();
+  };
+
+  const low = await testApp.insertScan(userId, { confidence: 'low' });
+  const medium = await testApp.insertScan(userId, { confidence: 'medium' });
+  const high = await testApp.insertScan(userId, { confidence: 'high' });
+
+  const response = await testApp.app.fastify.inject({
+    method: 'GET',
+    url: `/api/scans/${medium}`,
+    headers: { authorization: testApp.authorization(userId) },
+  });
+  const { presentation, safety } = response.json();
+  assert.equal(safety.ingestion.severity, 'safe');
+  assert.equal(presentation.doNotConsume, true);
+  assert.equal(presentation.routes.ingestion, 'suppress');
+  assert.equal(presentation.routes.skinContact, 'show');
+
+  assert.deepEqual(await list('safeToEat=true'), [high]);
+  assert.deepEqual(await list('safeToTouch=true'), [medium, high].sort());
+  assert.deepEqual(await list('safeToEat=false'), [low, medium].sort());
+});
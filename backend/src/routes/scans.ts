@@ -1,41 +1,226 @@
 import type { App } from '../index.js';
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { gateway } from '@specific-dev/framework';
-import { generateText, generateObject } from 'ai';
-import { z } from 'zod';
-import { eq, desc } from 'drizzle-orm';
+import { and, eq, asc, desc, max, type SQL } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
-
-// Zod schema for flora/fauna analysis
-const analysisSchema = z.object({
-  species: z.string().describe('Scientific name of the species'),
-  commonName: z.string().describe('Common name of the species'),
-  isSafeToEat: z.boolean().describe('Whether the species is safe to eat'),
-  isSafeToTouch: z.boolean().describe('Whether the species is safe to touch'),
-  confidence: z.enum(['high', 'medium', 'low']).describe('Confidence level of the identification'),
-  warnings: z.string().describe('Any warnings or cautions about this species'),
-  description: z.string().describe('Detailed description of the species and its characteristics'),
-});
+import { clearDeadAnalysisJob, enqueueAnalysisJob, type AnalysisJob } from '../db/analysis-jobs.js';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  hashRequestBody,
+  releaseIdempotencyKey,
+} from '../db/idempotency.js';
+import { buildScanBoundingBoxWhere, buildScanListWhere, decodeCursor, encodeCursor } from '../db/scan-filters.js';
+import {
+  acknowledgeLookalikesResponseSchema,
+  boundingBoxQuerySchema,
+  deleteScanResponseSchema,
+  idempotencyKeySchema,
+  listScansQuerySchema,
+  mapScansResponseSchema,
+  MAX_MAP_SCANS,
+  reanalyzeScanBodySchema,
+  scanAnalysesResponseSchema,
+  scanDetailResponseSchema,
+  scanIdParamsSchema,
+  scanListResponseSchema,
+  scanSchema,
+  scanUploadResponseSchema,
+  updateScanBodySchema,
+  uploadScanFieldsSchema,
+  type ReanalysisStatus,
+  type ScanUploadResponse,
+} from '../contracts/scans.js';
+import { documented, scanRouteSchemas } from '../openapi/route-schemas.js';
+import { createUploadProgressStream, wantsUploadProgress, type UploadProgressStream } from './upload-progress.js';
+import type { AnalysisEvent, AnalysisWorker } from '../analysis/worker.js';
+import { createSignedUrlCache } from '../storage/signed-urls.js';
+import { generateImageVariants, variantKey } from '../storage/image-variants.js';
+import {
+  ImageValidationError,
+  imageMimeTypeFromKey,
+  normalizeUploadedImage,
+  sanitizeFilename,
+} from '../storage/image-validation.js';
+import { readExifLocation, stripImageMetadata } from '../storage/image-metadata.js';
+import { applyLocationPrecision } from '../location/precision.js';
+import { getUserSettings } from '../settings/user-settings.js';
+import { resolveScanSpecies } from '../species/catalog.js';
+import { assessSafety, unassessedAnalysis } from '../safety/assess.js';
+import { decidePresentation, loadPresentationPolicy, type PresentableScan } from '../safety/presentation.js';
 
 interface UploadBody {
   // Multipart form data with file
 }
 
-export function registerScansRoutes(app: App) {
+// How long a streaming upload follows its scan's analysis before leaving the client to poll
+const ANALYSIS_STREAM_TIMEOUT_MS = 2 * 60 * 1000;
+
+// A complete scan's job is a re-analysis; this is how far it has got
+const REANALYSIS_STATUS: Record<AnalysisJob['status'], ReanalysisStatus> = {
+  queued: 'pending',
+  running: 'analysing',
+  dead: 'failed',
+};
+
+interface ScanImageKeys {
+  imageKey: string;
+  thumbnailKey: string | null;
+  mediumKey: string | null;
+}
+
+export function registerScansRoutes(app: App, analysisWorker: AnalysisWorker) {
   const requireAuth = app.requireAuth();
+  const signedUrls = createSignedUrlCache(app.storage);
+
+  // Replace storage keys with signed URLs; scans without variants fall back to the original
+  const withImageUrls = async <T extends ScanImageKeys>(scans: T[]) => {
+    const urls = await signedUrls.getMany(
+      scans.flatMap((scan) => [scan.imageKey, scan.thumbnailKey, scan.mediumKey].filter((key): key is string => !!key))
+    );
+    return scans.map((scan) => {
+      const imageUrl = urls.get(scan.imageKey)!;
+      return {
+        ...scan,
+        imageUrl,
+        thumbnailUrl: scan.thumbnailKey ? urls.get(scan.thumbnailKey)! : imageUrl,
+        mediumUrl: scan.mediumKey ? urls.get(scan.mediumKey)! : imageUrl,
+      };
+    });
+  };
+
+  // Decided per response, so a policy change applies to scans analysed before it
+  const presentationPolicy = loadPresentationPolicy();
+
+  // Signed URLs plus how the scan's verdicts may be shown
+  const toScans = async <T extends ScanImageKeys & PresentableScan>(scans: T[]) => {
+    const signed = await withImageUrls(scans);
+    return signed.map((scan) => ({ ...scan, presentation: decidePresentation(scan, presentationPolicy) }));
+  };
+
+  // A scan with what its detail response needs
+  const findScanWithCandidates = (id: string) =>
+    app.db.query.scans.findFirst({
+      where: eq(schema.scans.id, id),
+      with: {
+        candidates: {
+          orderBy: [asc(schema.scanCandidates.rank)],
+        },
+        analysisJob: {
+          columns: { status: true },
+        },
+      },
+    });
+
+  const toScanDetail = async (scan: NonNullable<Awaited<ReturnType<typeof findScanWithCandidates>>>) => {
+    const [signed] = await toScans([scan]);
+    const reanalysisStatus = scan.status === 'complete' && scan.analysisJob
+      ? REANALYSIS_STATUS[scan.analysisJob.status]
+      : null;
+    return scanDetailResponseSchema.parse({ ...signed, reanalysisStatus });
+  };
+
+  // Response for an upload that was already processed, rebuilt from the saved scan
+  const findSavedUpload = async (where: SQL | undefined) => {
+    const scan = await app.db.query.scans.findFirst({ where });
+    if (!scan) return null;
+
+    const [{ imageUrl, thumbnailUrl, mediumUrl }] = await withImageUrls([scan]);
+    return scanUploadResponseSchema.parse({
+      scanId: scan.id,
+      status: scan.status,
+      imageUrl,
+      thumbnailUrl,
+      mediumUrl,
+    });
+  };
+
+  /**
+   * Forward the worker's events for a scan to a streaming upload until its
+   * analysis completes, fails for good or is put off for a retry
+   */
+  const followAnalysis = (scanId: string, progress: UploadProgressStream, reply: FastifyReply) =>
+    new Promise<void>((resolve) => {
+      let following = true;
+      const stop = () => {
+        if (!following) return;
+        following = false;
+        clearTimeout(timeout);
+        unsubscribe();
+        reply.raw.off('close', stop);
+        resolve();
+      };
+      const forward = (event: AnalysisEvent) => {
+        if (!following) return;
+        progress.send(event);
+        if (event.stage !== 'analysing' && event.stage !== 'partial') {
+          stop();
+        }
+      };
+
+      const unsubscribe = analysisWorker.subscribe(scanId, forward);
+      const timeout = setTimeout(stop, ANALYSIS_STREAM_TIMEOUT_MS);
+      // The client went away
+      reply.raw.on('close', stop);
+
+      // The analysis may have ended before we subscribed, e.g. for a replayed upload
+      app.db.query.scans.findFirst({ columns: { status: true }, where: eq(schema.scans.id, scanId) })
+        .then((scan) => {
+          if (scan?.status === 'complete' || scan?.status === 'failed') {
+            forward({ stage: scan.status });
+          } else if (!scan) {
+            stop();
+          }
+        })
+        .catch((err) => {
+          app.logger.warn({ err, scanId }, 'Failed to read scan status for a streaming upload');
+          stop();
+        });
+    });
 
   /**
    * POST /api/scans/upload
-   * Upload an image and analyze it for flora/fauna
+   * Upload an image of flora/fauna. The scan is saved as pending and analysed
+   * by the background worker; poll GET /api/scans/:id for its status.
+   * Optional latitude/longitude form fields (sent before the file) carry the
+   * device location; otherwise the image's EXIF GPS position is used.
+   * Retries are idempotent with either an Idempotency-Key header (kept for
+   * 24 hours; 409 if reused for a different image) or a clientScanId field:
+   * a repeat returns the scan already created instead of a new one.
+   * With `Accept: application/x-ndjson` the response is a stream of progress
+   * events instead (received, stored, saved), which then follows the analysis
+   * (analysing, partial fields, complete) until it ends or is retried later.
    */
-  app.fastify.post('/api/scans/upload', async (
+  app.fastify.post('/api/scans/upload', documented(scanRouteSchemas.upload), async (
     request: FastifyRequest,
     reply: FastifyReply
   ) => {
     const session = await requireAuth(request, reply);
     if (!session) return;
 
-    app.logger.info({ userId: session.user.id }, 'Starting image upload and analysis');
+    app.logger.info({ userId: session.user.id }, 'Starting image upload');
+
+    const idempotencyHeader = request.headers['idempotency-key'];
+    const parsedIdempotencyKey = idempotencyKeySchema.optional().safeParse(idempotencyHeader);
+    if (!parsedIdempotencyKey.success) {
+      app.logger.warn({ userId: session.user.id }, 'Invalid idempotency key');
+      return reply.status(400).send({ error: 'Invalid Idempotency-Key header' });
+    }
+    const idempotencyKey = parsedIdempotencyKey.data;
+    // Set while this request holds the key, so a failure can release it
+    let claimedIdempotencyKey: string | null = null;
+
+    const progress = wantsUploadProgress(request) ? createUploadProgressStream(reply) : null;
+    // The body, or when streaming the saved event followed by the scan's analysis
+    const respond = async (result: ScanUploadResponse) => {
+      if (progress) {
+        progress.send({ stage: 'saved', result });
+        if (result.status === 'pending' || result.status === 'analysing') {
+          await followAnalysis(result.scanId, progress, reply);
+        }
+        progress.end();
+      }
+      return result;
+    };
 
     try {
       const data = await request.file({ limits: { fileSize: 10 * 1024 * 1024 } });
@@ -44,131 +229,333 @@ export function registerScansRoutes(app: App) {
         return reply.status(400).send({ error: 'No file provided' });
       }
 
-      let buffer: Buffer;
+      let upload: Buffer;
       try {
-        buffer = await data.toBuffer();
+        upload = await data.toBuffer();
       } catch (err) {
         app.logger.warn({ userId: session.user.id }, 'File size limit exceeded');
         return reply.status(413).send({ error: 'File too large' });
       }
 
+      const fieldValue = (name: string) => {
+        const field = data.fields[name];
+        return field && !Array.isArray(field) && field.type === 'field' ? field.value : undefined;
+      };
+
+      // Empty fields count as missing
+      const fields = uploadScanFieldsSchema.safeParse({
+        clientScanId: fieldValue('clientScanId') || undefined,
+        latitude: fieldValue('latitude') || undefined,
+        longitude: fieldValue('longitude') || undefined,
+      });
+      if (!fields.success) {
+        app.logger.warn({ userId: session.user.id, issues: fields.error.issues }, 'Invalid upload fields');
+        return reply.status(400).send({ error: 'Invalid upload fields', issues: fields.error.issues });
+      }
+      const clientScanId = fields.data.clientScanId ?? null;
+
+      if (clientScanId) {
+        const previous = await findSavedUpload(
+          and(eq(schema.scans.userId, session.user.id), eq(schema.scans.clientScanId, clientScanId))
+        );
+        if (previous) {
+          app.logger.info(
+            { userId: session.user.id, scanId: previous.scanId, clientScanId },
+            'Returning previously uploaded scan'
+          );
+          return respond(previous);
+        }
+      }
+
+      // Device coordinates win over EXIF; both are reduced to the user's precision
+      const { locationPrecision } = await getUserSettings(app, session.user.id);
+      const { latitude, longitude } = fields.data;
+      const deviceLocation = latitude !== undefined && longitude !== undefined ? { latitude, longitude } : null;
+      const location = applyLocationPrecision(
+        deviceLocation ?? (await readExifLocation(upload)),
+        locationPrecision
+      );
+      const locationSource = location ? (deviceLocation ? 'device' : 'exif') : null;
+
+      // Check the actual content rather than the declared type, then normalise
+      // HEIC to JPEG and apply EXIF orientation before anything else sees it
+      let image;
+      try {
+        image = await normalizeUploadedImage(upload);
+      } catch (err) {
+        if (err instanceof ImageValidationError) {
+          app.logger.warn(
+            { userId: session.user.id, declaredType: data.mimetype, code: err.code },
+            'Rejected image upload'
+          );
+          return reply.status(err.statusCode).send({ error: err.message, code: err.code });
+        }
+        throw err;
+      }
+      const { mimeType } = image;
+
+      if (idempotencyKey) {
+        const claim = await claimIdempotencyKey(app, session.user.id, idempotencyKey, hashRequestBody(upload));
+
+        if (claim.status === 'mismatch') {
+          app.logger.warn({ userId: session.user.id, idempotencyKey }, 'Idempotency key reused for different content');
+          return reply.status(409).send({
+            error: 'This Idempotency-Key was already used for a different image',
+            code: 'idempotency_key_reused',
+          });
+        }
+
+        if (claim.status === 'in_progress') {
+          app.logger.warn({ userId: session.user.id, idempotencyKey }, 'Idempotency key still in progress');
+          return reply.status(409).send({
+            error: 'A request with this Idempotency-Key is still being processed',
+            code: 'idempotency_key_in_progress',
+          });
+        }
+
+        if (claim.status === 'replay') {
+          const previous = await findSavedUpload(
+            and(eq(schema.scans.id, claim.scanId), eq(schema.scans.userId, session.user.id))
+          );
+          if (previous) {
+            app.logger.info(
+              { userId: session.user.id, scanId: claim.scanId, idempotencyKey },
+              'Replaying response for idempotency key'
+            );
+            return respond(previous);
+          }
+        }
+
+        claimedIdempotencyKey = idempotencyKey;
+      }
+
+      progress?.send({ stage: 'received' });
+
+      // Only keep the camera's GPS tags in the stored original at exact precision
+      const buffer = locationPrecision === 'exact'
+        ? image.buffer
+        : await stripImageMetadata(image.buffer, mimeType);
+
       // Upload to storage
-      const key = `scans/${session.user.id}/${Date.now()}-${data.filename}`;
+      const key = `scans/${session.user.id}/${Date.now()}-${sanitizeFilename(data.filename, image.extension)}`;
       app.logger.info({ userId: session.user.id, key }, 'Uploading file to storage');
 
       const uploadedKey = await app.storage.upload(key, buffer);
-      const { url } = await app.storage.getSignedUrl(uploadedKey);
-
-      // Analyze image with GPT-4 Vision
-      app.logger.info({ userId: session.user.id, key: uploadedKey }, 'Analyzing image with AI');
-
-      const base64 = buffer.toString('base64');
-      const mimeType = data.mimetype || 'image/jpeg';
-
-      const analysisResult = await generateObject({
-        model: gateway('openai/gpt-4o'),
-        schema: analysisSchema,
-        schemaName: 'FloraFaunaAnalysis',
-        schemaDescription: 'Analysis of a flora or fauna species from an image',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'image', image: base64, mediaType: mimeType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' },
-              {
-                type: 'text',
-                text: `Analyze this image of flora or fauna. Identify the species (provide both scientific and common names).
-Determine if it is safe to eat and safe to touch. Provide your confidence level in the identification (high, medium, or low).
-Include any important warnings or cautions. Provide a detailed description of the species and its characteristics.`,
-              },
-            ],
-          },
-        ],
-      });
 
-      app.logger.info(
-        {
-          userId: session.user.id,
-          species: analysisResult.object.species,
-          confidence: analysisResult.object.confidence,
-        },
-        'AI analysis completed'
-      );
+      // Store resized copies next to the original for list and detail views
+      let thumbnailKey: string | null = null;
+      let mediumKey: string | null = null;
+      try {
+        const variants = await generateImageVariants(buffer);
+        [thumbnailKey, mediumKey] = await Promise.all([
+          app.storage.upload(variantKey(uploadedKey, 'thumbnail'), variants.thumbnail),
+          app.storage.upload(variantKey(uploadedKey, 'medium'), variants.medium),
+        ]);
+      } catch (err) {
+        app.logger.warn({ err, userId: session.user.id, key: uploadedKey }, 'Failed to generate image variants');
+      }
 
-      // Save analysis to database
+      progress?.send({ stage: 'stored' });
+      const imageKeys = [uploadedKey, thumbnailKey, mediumKey].filter((key): key is string => !!key);
+
+      // Save the capture before it is analysed, so a slow or failing analysis never loses it
       const [scan] = await app.db.insert(schema.scans).values({
         userId: session.user.id,
-        imageUrl: url,
+        clientScanId,
         imageKey: uploadedKey,
-        species: analysisResult.object.species,
-        commonName: analysisResult.object.commonName,
-        isSafeToEat: analysisResult.object.isSafeToEat,
-        isSafeToTouch: analysisResult.object.isSafeToTouch,
-        confidence: analysisResult.object.confidence,
-        warnings: analysisResult.object.warnings,
-        description: analysisResult.object.description,
-      }).returning();
+        thumbnailKey,
+        mediumKey,
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
+        locationSource,
+      })
+        .onConflictDoNothing({ target: [schema.scans.userId, schema.scans.clientScanId] })
+        .returning();
 
-      app.logger.info({ userId: session.user.id, scanId: scan.id }, 'Scan saved to database');
+      // A concurrent retry of the same capture saved first; keep its scan and drop our images
+      if (!scan) {
+        await Promise.all(imageKeys.map((key) => app.storage.delete(key)));
+        app.logger.info({ userId: session.user.id, clientScanId }, 'Concurrent duplicate upload discarded');
 
-      return {
+        const previous = await findSavedUpload(
+          and(eq(schema.scans.userId, session.user.id), eq(schema.scans.clientScanId, clientScanId!))
+        );
+        if (!previous) {
+          throw new Error(`Scan for client scan id ${clientScanId} disappeared during upload`);
+        }
+        if (claimedIdempotencyKey) {
+          await completeIdempotencyKey(app, session.user.id, claimedIdempotencyKey, previous.scanId);
+        }
+        return respond(previous);
+      }
+
+      try {
+        await enqueueAnalysisJob(app.db, scan.id, mimeType);
+      } catch (err) {
+        // Without a job the scan would stay pending forever; drop it so the client's retry starts over
+        await app.db.delete(schema.scans).where(eq(schema.scans.id, scan.id));
+        await Promise.all(imageKeys.map((key) => app.storage.delete(key)));
+        throw err;
+      }
+      analysisWorker.wake();
+
+      app.logger.info({ userId: session.user.id, scanId: scan.id, key: uploadedKey }, 'Scan saved; analysis queued');
+
+      if (claimedIdempotencyKey) {
+        await completeIdempotencyKey(app, session.user.id, claimedIdempotencyKey, scan.id);
+        claimedIdempotencyKey = null;
+      }
+
+      const [{ imageUrl, thumbnailUrl, mediumUrl }] = await withImageUrls([scan]);
+
+      return respond(scanUploadResponseSchema.parse({
         scanId: scan.id,
-        imageUrl: url,
-        analysis: analysisResult.object,
-      };
+        status: scan.status,
+        imageUrl,
+        thumbnailUrl,
+        mediumUrl,
+      }));
     } catch (error) {
-      app.logger.error({ err: error, userId: session.user.id }, 'Failed to upload and analyze image');
+      app.logger.error({ err: error, userId: session.user.id }, 'Failed to upload image');
+      if (claimedIdempotencyKey) {
+        await releaseIdempotencyKey(app, session.user.id, claimedIdempotencyKey).catch((err) => {
+          app.logger.error({ err, userId: session.user.id }, 'Failed to release idempotency key');
+        });
+      }
+      // The 200 status is already out; the client retries like after a 500
+      if (progress?.started) {
+        progress.fail('Failed to upload image', 'upload_failed');
+        return;
+      }
       throw error;
     }
   });
 
   /**
    * GET /api/scans
-   * Get all scans for the authenticated user
+   * Get a page of the authenticated user's scans, newest first.
+   * Query: limit, cursor, confidence, safeToEat, safeToTouch, from, to, q
    */
-  app.fastify.get('/api/scans', async (
-    request: FastifyRequest,
+  app.fastify.get('/api/scans', documented(scanRouteSchemas.list), async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
     reply: FastifyReply
   ) => {
     const session = await requireAuth(request, reply);
     if (!session) return;
 
-    app.logger.info({ userId: session.user.id }, 'Retrieving user scans');
+    const parsed = listScansQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      app.logger.warn({ userId: session.user.id, issues: parsed.error.issues }, 'Invalid scan list query');
+      return reply.status(400).send({ error: 'Invalid query', issues: parsed.error.issues });
+    }
+
+    const query = parsed.data;
+    const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+    if (query.cursor && !cursor) {
+      app.logger.warn({ userId: session.user.id }, 'Invalid scan list cursor');
+      return reply.status(400).send({ error: 'Invalid cursor' });
+    }
+
+    app.logger.info({ userId: session.user.id, query }, 'Retrieving user scans');
 
     try {
-      const scans = await app.db.query.scans.findMany({
-        where: eq(schema.scans.userId, session.user.id),
-        orderBy: [desc(schema.scans.createdAt)],
+      const rows = await app.db.query.scans.findMany({
+        where: buildScanListWhere(session.user.id, query, cursor, presentationPolicy),
+        orderBy: [desc(schema.scans.createdAt), desc(schema.scans.id)],
+        limit: query.limit + 1,
       });
 
-      app.logger.info({ userId: session.user.id, count: scans.length }, 'Scans retrieved successfully');
+      const page = rows.slice(0, query.limit);
+      const nextCursor = rows.length > query.limit ? encodeCursor(page[page.length - 1]) : null;
+
+      // Sign image URLs for the whole page at once
+      const scans = await toScans(page);
 
-      return scans;
+      app.logger.info({ userId: session.user.id, count: scans.length, hasMore: !!nextCursor }, 'Scans retrieved successfully');
+
+      return scanListResponseSchema.parse({ scans, nextCursor });
     } catch (error) {
       app.logger.error({ err: error, userId: session.user.id }, 'Failed to retrieve scans');
       throw error;
     }
   });
 
+  /**
+   * GET /api/scans/bbox
+   * Get the authenticated user's located scans inside a bounding box, for the map.
+   * Query: minLat, minLng, maxLat, maxLng
+   */
+  app.fastify.get('/api/scans/bbox', documented(scanRouteSchemas.boundingBox), async (
+    request: FastifyRequest<{ Querystring: Record<string, string> }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const parsed = boundingBoxQuerySchema.safeParse(request.query ?? {});
+    if (!parsed.success) {
+      app.logger.warn({ userId: session.user.id, issues: parsed.error.issues }, 'Invalid bounding box query');
+      return reply.status(400).send({ error: 'Invalid query', issues: parsed.error.issues });
+    }
+
+    app.logger.info({ userId: session.user.id, box: parsed.data }, 'Retrieving scans in bounding box');
+
+    try {
+      const rows = await app.db.query.scans.findMany({
+        columns: {
+          id: true,
+          imageKey: true,
+          thumbnailKey: true,
+          mediumKey: true,
+          species: true,
+          commonName: true,
+          safety: true,
+          edibility: true,
+          confidence: true,
+          latitude: true,
+          longitude: true,
+          createdAt: true,
+        },
+        where: buildScanBoundingBoxWhere(session.user.id, parsed.data),
+        orderBy: [desc(schema.scans.createdAt)],
+        limit: MAX_MAP_SCANS + 1,
+      });
+
+      const truncated = rows.length > MAX_MAP_SCANS;
+      const scans = await toScans(rows.slice(0, MAX_MAP_SCANS));
+
+      app.logger.info({ userId: session.user.id, count: scans.length, truncated }, 'Bounding box scans retrieved');
+
+      return mapScansResponseSchema.parse({ scans, truncated });
+    } catch (error) {
+      app.logger.error({ err: error, userId: session.user.id }, 'Failed to retrieve scans in bounding box');
+      throw error;
+    }
+  });
+
   /**
    * GET /api/scans/:id
-   * Get a specific scan by ID
+   * Get a specific scan by ID. Analysed scans include their ranked candidate
+   * species; others only report their status, so clients can poll this.
    */
-  app.fastify.get('/api/scans/:id', async (
+  app.fastify.get('/api/scans/:id', documented(scanRouteSchemas.get), async (
     request: FastifyRequest<{ Params: { id: string } }>,
     reply: FastifyReply
   ) => {
     const session = await requireAuth(request, reply);
     if (!session) return;
 
-    const { id } = request.params;
+    const params = scanIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      app.logger.warn({ userId: session.user.id, scanId: request.params.id }, 'Invalid scan id');
+      return reply.status(400).send({ error: 'Invalid scan id' });
+    }
+    const { id } = params.data;
 
     app.logger.info({ userId: session.user.id, scanId: id }, 'Retrieving scan details');
 
     try {
-      const scan = await app.db.query.scans.findFirst({
-        where: eq(schema.scans.id, id),
-      });
+      const scan = await findScanWithCandidates(id);
 
       if (!scan) {
         app.logger.warn({ userId: session.user.id, scanId: id }, 'Scan not found');
@@ -181,18 +568,362 @@ Include any important warnings or cautions. Provide a detailed description of th
         return reply.status(403).send({ error: 'Unauthorized' });
       }
 
-      // Generate fresh signed URL for the image
-      const { url } = await app.storage.getSignedUrl(scan.imageKey);
+      const detail = await toScanDetail(scan);
 
       app.logger.info({ userId: session.user.id, scanId: id }, 'Scan retrieved successfully');
 
-      return {
-        ...scan,
-        imageUrl: url,
-      };
+      return detail;
     } catch (error) {
       app.logger.error({ err: error, userId: session.user.id, scanId: id }, 'Failed to retrieve scan');
       throw error;
     }
   });
+
+  /**
+   * POST /api/scans/:id/reanalyze
+   * Run identification again on the stored photo, e.g. after a model update
+   * or when the user disputes the answer. A complete scan keeps its current
+   * analysis until the new one is saved; a failed scan goes back to pending.
+   */
+  app.fastify.post('/api/scans/:id/reanalyze', documented(scanRouteSchemas.reanalyze), async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const params = scanIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      app.logger.warn({ userId: session.user.id, scanId: request.params.id }, 'Invalid scan id');
+      return reply.status(400).send({ error: 'Invalid scan id' });
+    }
+    const { id } = params.data;
+
+    const parsed = reanalyzeScanBodySchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      app.logger.warn({ userId: session.user.id, scanId: id, issues: parsed.error.issues }, 'Invalid re-analysis request');
+      return reply.status(400).send({ error: 'Invalid re-analysis request', issues: parsed.error.issues });
+    }
+    const { hint } = parsed.data;
+
+    app.logger.info({ userId: session.user.id, scanId: id, hasHint: !!hint }, 'Re-analysing scan');
+
+    try {
+      const scan = await app.db.query.scans.findFirst({
+        where: eq(schema.scans.id, id),
+      });
+
+      if (!scan) {
+        app.logger.warn({ userId: session.user.id, scanId: id }, 'Scan not found');
+        return reply.status(404).send({ error: 'Scan not found' });
+      }
+
+      if (scan.userId !== session.user.id) {
+        app.logger.warn({ userId: session.user.id, scanId: id, scanOwnerId: scan.userId }, 'Unauthorized access to scan');
+        return reply.status(403).send({ error: 'Unauthorized' });
+      }
+
+      const mimeType = imageMimeTypeFromKey(scan.imageKey);
+      if (!mimeType) {
+        app.logger.warn({ userId: session.user.id, scanId: id, key: scan.imageKey }, 'Stored image type unknown');
+        return reply.status(422).send({
+          error: 'The stored photo is not a supported image type',
+          code: 'unsupported_media_type',
+        });
+      }
+
+      // A dead job is only kept as a record of the failure; a queued or running one blocks the new job.
+      // Workers only see the job once the failed scan is pending again, so they cannot finish it first.
+      const queued = await app.db.transaction(async (tx) => {
+        await clearDeadAnalysisJob(tx, id);
+        if (!(await enqueueAnalysisJob(tx, id, mimeType, hint))) {
+          return false;
+        }
+        await tx.update(schema.scans)
+          .set({ status: 'pending' })
+          .where(and(eq(schema.scans.id, id), eq(schema.scans.status, 'failed')));
+        return true;
+      });
+      if (!queued) {
+        app.logger.warn({ userId: session.user.id, scanId: id }, 'Scan analysis already in progress');
+        return reply.status(409).send({ error: 'This scan is already being analysed', code: 'analysis_in_progress' });
+      }
+      analysisWorker.wake();
+
+      app.logger.info({ userId: session.user.id, scanId: id }, 'Scan queued for re-analysis');
+
+      return toScanDetail((await findScanWithCandidates(id))!);
+    } catch (error) {
+      app.logger.error({ err: error, userId: session.user.id, scanId: id }, 'Failed to queue scan re-analysis');
+      throw error;
+    }
+  });
+
+  /**
+   * GET /api/scans/:id/analyses
+   * Version history of a scan's analyses, newest first
+   */
+  app.fastify.get('/api/scans/:id/analyses', documented(scanRouteSchemas.listAnalyses), async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const params = scanIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      app.logger.warn({ userId: session.user.id, scanId: request.params.id }, 'Invalid scan id');
+      return reply.status(400).send({ error: 'Invalid scan id' });
+    }
+    const { id } = params.data;
+
+    app.logger.info({ userId: session.user.id, scanId: id }, 'Retrieving scan analyses');
+
+    try {
+      const scan = await app.db.query.scans.findFirst({
+        columns: { userId: true },
+        where: eq(schema.scans.id, id),
+        with: {
+          analyses: {
+            orderBy: [desc(schema.scanAnalyses.version)],
+          },
+        },
+      });
+
+      if (!scan) {
+        app.logger.warn({ userId: session.user.id, scanId: id }, 'Scan not found');
+        return reply.status(404).send({ error: 'Scan not found' });
+      }
+
+      if (scan.userId !== session.user.id) {
+        app.logger.warn({ userId: session.user.id, scanId: id, scanOwnerId: scan.userId }, 'Unauthorized access to scan');
+        return reply.status(403).send({ error: 'Unauthorized' });
+      }
+
+      app.logger.info({ userId: session.user.id, scanId: id, count: scan.analyses.length }, 'Scan analyses retrieved');
+
+      return scanAnalysesResponseSchema.parse({ analyses: scan.analyses });
+    } catch (error) {
+      app.logger.error({ err: error, userId: session.user.id, scanId: id }, 'Failed to retrieve scan analyses');
+      throw error;
+    }
+  });
+
+  /**
+   * POST /api/scans/:id/acknowledge-lookalikes
+   * Record that the user has read the look-alike warnings on a scan
+   */
+  app.fastify.post('/api/scans/:id/acknowledge-lookalikes', documented(scanRouteSchemas.acknowledgeLookalikes), async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const params = scanIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      app.logger.warn({ userId: session.user.id, scanId: request.params.id }, 'Invalid scan id');
+      return reply.status(400).send({ error: 'Invalid scan id' });
+    }
+    const { id } = params.data;
+
+    app.logger.info({ userId: session.user.id, scanId: id }, 'Acknowledging look-alike warnings');
+
+    try {
+      const scan = await app.db.query.scans.findFirst({
+        where: eq(schema.scans.id, id),
+      });
+
+      if (!scan) {
+        app.logger.warn({ userId: session.user.id, scanId: id }, 'Scan not found');
+        return reply.status(404).send({ error: 'Scan not found' });
+      }
+
+      if (scan.userId !== session.user.id) {
+        app.logger.warn({ userId: session.user.id, scanId: id, scanOwnerId: scan.userId }, 'Unauthorized access to scan');
+        return reply.status(403).send({ error: 'Unauthorized' });
+      }
+
+      if (scan.status !== 'complete') {
+        app.logger.warn({ userId: session.user.id, scanId: id, status: scan.status }, 'Scan not analysed yet');
+        return reply.status(409).send({ error: 'This scan has not been analysed yet', code: 'scan_not_analysed' });
+      }
+
+      const [updated] = await app.db.update(schema.scans)
+        .set({ lookalikeAcknowledgedAt: scan.lookalikeAcknowledgedAt ?? new Date() })
+        .where(eq(schema.scans.id, id))
+        .returning();
+
+      app.logger.info({ userId: session.user.id, scanId: id }, 'Look-alike warnings acknowledged');
+
+      return acknowledgeLookalikesResponseSchema.parse({
+        scanId: updated.id,
+        lookalikeAcknowledgedAt: updated.lookalikeAcknowledgedAt,
+      });
+    } catch (error) {
+      app.logger.error({ err: error, userId: session.user.id, scanId: id }, 'Failed to acknowledge look-alike warnings');
+      throw error;
+    }
+  });
+
+  /**
+   * PATCH /api/scans/:id
+   * Correct the species/common name of a scan or update its notes.
+   * The model's answer stays in originalAnalysis for accuracy tracking.
+   * Correcting the species reassesses its safety for the new species.
+   */
+  app.fastify.patch('/api/scans/:id', documented(scanRouteSchemas.update), async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const params = scanIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      app.logger.warn({ userId: session.user.id, scanId: request.params.id }, 'Invalid scan id');
+      return reply.status(400).send({ error: 'Invalid scan id' });
+    }
+    const { id } = params.data;
+
+    const parsed = updateScanBodySchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      app.logger.warn({ userId: session.user.id, scanId: id, issues: parsed.error.issues }, 'Invalid scan update');
+      return reply.status(400).send({ error: 'Invalid scan update', issues: parsed.error.issues });
+    }
+
+    app.logger.info({ userId: session.user.id, scanId: id }, 'Updating scan');
+
+    try {
+      const scan = await app.db.query.scans.findFirst({
+        where: eq(schema.scans.id, id),
+      });
+
+      if (!scan) {
+        app.logger.warn({ userId: session.user.id, scanId: id }, 'Scan not found');
+        return reply.status(404).send({ error: 'Scan not found' });
+      }
+
+      if (scan.userId !== session.user.id) {
+        app.logger.warn({ userId: session.user.id, scanId: id, scanOwnerId: scan.userId }, 'Unauthorized access to scan');
+        return reply.status(403).send({ error: 'Unauthorized' });
+      }
+
+      if (scan.status !== 'complete') {
+        app.logger.warn({ userId: session.user.id, scanId: id, status: scan.status }, 'Scan not analysed yet');
+        return reply.status(409).send({ error: 'This scan has not been analysed yet', code: 'scan_not_analysed' });
+      }
+
+      const { species, commonName, notes } = parsed.data;
+      const speciesChanged = species !== undefined && species !== scan.species;
+      const isCorrection = speciesChanged || (commonName !== undefined && commonName !== scan.commonName);
+
+      // The safety was assessed for the old species. The model's own answer is
+      // reassessed as it was; any other species only gets what curated data knows.
+      let reassessment: Partial<typeof schema.scans.$inferInsert> = {};
+      if (speciesChanged) {
+        const resolution = await resolveScanSpecies(app, species);
+        const original = scan.originalAnalysis!;
+        const { scanSafety } = species === original.species
+          ? assessSafety(original, resolution, { provider: scan.provider, model: scan.model })
+          : assessSafety(unassessedAnalysis(original, species), resolution, null);
+        reassessment = {
+          ...resolution,
+          ...scanSafety,
+          warnings: species === original.species ? original.warnings : '',
+          // The acknowledged look-alikes were those of the old species
+          lookalikeAcknowledgedAt: null,
+        };
+        app.logger.info(
+          { userId: session.user.id, scanId: id, species, edibility: scanSafety.edibility },
+          'Scan safety reassessed for corrected species'
+        );
+      }
+
+      const updated = await app.db.transaction(async (tx) => {
+        const [row] = await tx.update(schema.scans)
+          .set({
+            ...(species !== undefined && { species }),
+            ...reassessment,
+            ...(commonName !== undefined && { commonName }),
+            ...(notes !== undefined && { notes: notes || null }),
+            ...(isCorrection && { correctedAt: new Date() }),
+          })
+          .where(eq(schema.scans.id, id))
+          .returning();
+
+        // The history keeps the correction with the answer it corrects, so a re-analysis cannot erase it
+        if (isCorrection) {
+          const [{ latest }] = await tx.select({ latest: max(schema.scanAnalyses.version) })
+            .from(schema.scanAnalyses)
+            .where(eq(schema.scanAnalyses.scanId, id));
+          await tx.update(schema.scanAnalyses)
+            .set({
+              correction: { species: row.species!, commonName: row.commonName!, correctedAt: row.correctedAt!.toISOString() },
+            })
+            .where(and(eq(schema.scanAnalyses.scanId, id), eq(schema.scanAnalyses.version, latest)));
+        }
+        return row;
+      });
+
+      const [signed] = await toScans([updated]);
+
+      app.logger.info({ userId: session.user.id, scanId: id, isCorrection }, 'Scan updated successfully');
+
+      return scanSchema.parse(signed);
+    } catch (error) {
+      app.logger.error({ err: error, userId: session.user.id, scanId: id }, 'Failed to update scan');
+      throw error;
+    }
+  });
+
+  /**
+   * DELETE /api/scans/:id
+   * Delete a scan and its image from storage
+   */
+  app.fastify.delete('/api/scans/:id', documented(scanRouteSchemas.delete), async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const params = scanIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      app.logger.warn({ userId: session.user.id, scanId: request.params.id }, 'Invalid scan id');
+      return reply.status(400).send({ error: 'Invalid scan id' });
+    }
+    const { id } = params.data;
+
+    app.logger.info({ userId: session.user.id, scanId: id }, 'Deleting scan');
+
+    try {
+      const scan = await app.db.query.scans.findFirst({
+        where: eq(schema.scans.id, id),
+      });
+
+      if (!scan) {
+        app.logger.warn({ userId: session.user.id, scanId: id }, 'Scan not found');
+        return reply.status(404).send({ error: 'Scan not found' });
+      }
+
+      if (scan.userId !== session.user.id) {
+        app.logger.warn({ userId: session.user.id, scanId: id, scanOwnerId: scan.userId }, 'Unauthorized access to scan');
+        return reply.status(403).send({ error: 'Unauthorized' });
+      }
+
+      // Remove the images first so a storage failure leaves the scan in place to retry
+      const imageKeys = [scan.imageKey, scan.thumbnailKey, scan.mediumKey].filter((key): key is string => !!key);
+      await Promise.all(imageKeys.map((key) => app.storage.delete(key)));
+      imageKeys.forEach((key) => signedUrls.invalidate(key));
+      await app.db.delete(schema.scans).where(eq(schema.scans.id, id));
+
+      app.logger.info({ userId: session.user.id, scanId: id, key: scan.imageKey }, 'Scan deleted successfully');
+
+      return deleteScanResponseSchema.parse({ success: true, scanId: id });
+    } catch (error) {
+      app.logger.error({ err: error, userId: session.user.id, scanId: id }, 'Failed to delete scan');
+      throw error;
+    }
+  });
 }
@@ -0,0 +1,69 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import * as schema from '../db/schema.js';
+import { updateSettingsBodySchema, userSettingsSchema } from '../contracts/settings.js';
+import { documented, settingsRouteSchemas } from '../openapi/route-schemas.js';
+import { getUserSettings } from '../settings/user-settings.js';
+
+export function registerSettingsRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * GET /api/settings
+   * Get the authenticated user's settings
+   */
+  app.fastify.get('/api/settings', documented(settingsRouteSchemas.get), async (
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    app.logger.info({ userId: session.user.id }, 'Retrieving user settings');
+
+    try {
+      return userSettingsSchema.parse(await getUserSettings(app, session.user.id));
+    } catch (error) {
+      app.logger.error({ err: error, userId: session.user.id }, 'Failed to retrieve user settings');
+      throw error;
+    }
+  });
+
+  /**
+   * PATCH /api/settings
+   * Update the authenticated user's settings.
+   * Location precision applies to scans uploaded from now on.
+   */
+  app.fastify.patch('/api/settings', documented(settingsRouteSchemas.update), async (
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const parsed = updateSettingsBodySchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      app.logger.warn({ userId: session.user.id, issues: parsed.error.issues }, 'Invalid settings update');
+      return reply.status(400).send({ error: 'Invalid settings update', issues: parsed.error.issues });
+    }
+
+    app.logger.info({ userId: session.user.id, settings: parsed.data }, 'Updating user settings');
+
+    try {
+      const [settings] = await app.db.insert(schema.userSettings)
+        .values({ userId: session.user.id, ...parsed.data })
+        .onConflictDoUpdate({
+          target: schema.userSettings.userId,
+          set: { ...parsed.data, updatedAt: new Date() },
+        })
+        .returning();
+
+      app.logger.info({ userId: session.user.id }, 'User settings updated');
+
+      return userSettingsSchema.parse(settings);
+    } catch (error) {
+      app.logger.error({ err: error, userId: session.user.id }, 'Failed to update user settings');
+      throw error;
+    }
+  });
+}
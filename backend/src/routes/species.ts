@@ -0,0 +1,58 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { and, count, eq } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import { speciesIdParamsSchema, speciesSchema } from '../contracts/species.js';
+import { documented, speciesRouteSchemas } from '../openapi/route-schemas.js';
+
+export function registerSpeciesRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * GET /api/species/:id
+   * A catalog species with its taxonomy, names and curated safety data,
+   * and how many of the user's scans are linked to it
+   */
+  app.fastify.get('/api/species/:id', documented(speciesRouteSchemas.get), async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const params = speciesIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      app.logger.warn({ userId: session.user.id, speciesId: request.params.id }, 'Invalid species id');
+      return reply.status(400).send({ error: 'Invalid species id' });
+    }
+    const { id } = params.data;
+
+    app.logger.info({ userId: session.user.id, speciesId: id }, 'Retrieving species');
+
+    try {
+      const species = await app.db.query.species.findFirst({
+        where: eq(schema.species.id, id),
+      });
+
+      if (!species) {
+        app.logger.warn({ userId: session.user.id, speciesId: id }, 'Species not found');
+        return reply.status(404).send({ error: 'Species not found' });
+      }
+
+      const [{ scanCount }] = await app.db.select({ scanCount: count() })
+        .from(schema.scans)
+        .where(and(
+          eq(schema.scans.userId, session.user.id),
+          eq(schema.scans.speciesId, id),
+          eq(schema.scans.status, 'complete')
+        ));
+
+      app.logger.info({ userId: session.user.id, speciesId: id, scanCount }, 'Species retrieved successfully');
+
+      return speciesSchema.parse({ ...species, scanCount });
+    } catch (error) {
+      app.logger.error({ err: error, userId: session.user.id, speciesId: id }, 'Failed to retrieve species');
+      throw error;
+    }
+  });
+}
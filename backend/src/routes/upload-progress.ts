@@ -0,0 +1,64 @@
+import type { OutgoingHttpHeaders } from 'node:http';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import {
+  UPLOAD_PROGRESS_CONTENT_TYPE,
+  uploadProgressEventSchema,
+  type UploadProgressEvent,
+} from '../contracts/scans.js';
+
+export interface UploadProgressStream {
+  /** Whether the 200 response has been sent, after which errors can only be reported as events */
+  readonly started: boolean;
+  /** Write one event, starting the response on the first one */
+  send(event: UploadProgressEvent): void;
+  /** End the response after the last event */
+  end(): void;
+  /** Write an error event and end the response */
+  fail(error: string, code?: string): void;
+}
+
+/**
+ * Whether the client asked for progress events instead of a single JSON body
+ */
+export function wantsUploadProgress(request: FastifyRequest): boolean {
+  return request.headers.accept?.includes(UPLOAD_PROGRESS_CONTENT_TYPE) ?? false;
+}
+
+/**
+ * Newline-delimited JSON progress events for an upload. Nothing is written
+ * until the first event, so validation failures before it still get their
+ * own HTTP status.
+ */
+export function createUploadProgressStream(reply: FastifyReply): UploadProgressStream {
+  let started = false;
+
+  const send = (event: UploadProgressEvent) => {
+    if (!started) {
+      // Fastify stops managing the response; keep headers set by hooks such as CORS
+      reply.hijack();
+      reply.raw.writeHead(200, {
+        ...(reply.getHeaders() as OutgoingHttpHeaders),
+        'content-type': `${UPLOAD_PROGRESS_CONTENT_TYPE}; charset=utf-8`,
+        'cache-control': 'no-cache',
+        // Stop proxies from buffering the events until the end
+        'x-accel-buffering': 'no',
+      });
+      started = true;
+    }
+    reply.raw.write(`${JSON.stringify(uploadProgressEventSchema.parse(event))}\n`);
+  };
+
+  return {
+    get started() {
+      return started;
+    },
+    send,
+    end() {
+      reply.raw.end();
+    },
+    fail(error, code) {
+      send({ stage: 'error', error, ...(code && { code }) });
+      reply.raw.end();
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import type { Analysis } from '../identification/types.js';
+import type { Edibility, LookalikeWarning, NameMatchType } from '../contracts/scans.js';
+import {
+  isPermitted,
+  SAFETY_ROUTES,
+  type SafetyAssessment,
+  type SafetyCitations,
+  type SafetyConflict,
+  type SafetySources,
+} from './assessment.js';
+import { citeSafetyClaims } from './citations.js';
+import { applyCuratedSafety } from './curated.js';
+import { applyLookalikeGate } from './lookalikes.js';
+import { resolveScientificName } from '../species/resolution.js';
+
+// The safety columns of a scan, as one assessment sets them together
+export interface ScanSafety {
+  safety: SafetyAssessment;
+  safetySources: SafetySources;
+  safetyConflicts: SafetyConflict[];
+  safetyDatasetVersion: number | null;
+  safetyCitations: SafetyCitations;
+  edibility: Edibility;
+  lookalikeWarnings: LookalikeWarning[];
+}
+
+export interface SafetyAssessmentResult {
+  // The analysis with the curated verdicts and the look-alike gate applied
+  analysis: Analysis;
+  scanSafety: ScanSafety;
+}
+
+/**
+ * Settle the safety of an analysis: reviewed verdicts take precedence over the
+ * model's, edible verdicts with a known toxic look-alike are downgraded, and
+ * every claim is cited. A fuzzy name match may be a different species, so
+ * neither the curated verdicts nor the model's verdicts that permit an
+ * exposure are applied to it. Look-alikes are checked for every name that
+ * resolves, however it was spelled. `generatedBy` is null when the verdicts
+ * are not a model's, e.g. after a user corrected the species.
+ */
+export function assessSafety(
+  analysis: Analysis,
+  resolution: { acceptedName: string | null; nameMatch: NameMatchType },
+  generatedBy: { provider: string; model: string } | null
+): SafetyAssessmentResult {
+  const fuzzy = resolution.nameMatch === 'fuzzy';
+  const curated = applyCuratedSafety(analysis, fuzzy ? null : resolution.acceptedName);
+  const trusted = fuzzy ? withholdPermittedVerdicts(curated.analysis, resolution.acceptedName!) : curated.analysis;
+  const candidateNames = analysis.candidates.map((candidate) => resolveScientificName(candidate.species).acceptedName);
+  const acceptedNames = [resolution.acceptedName, ...candidateNames].filter((name): name is string => name !== null);
+  const gated = applyLookalikeGate(trusted, acceptedNames);
+
+  return {
+    analysis: gated.analysis,
+    scanSafety: {
+      safety: gated.analysis.safety,
+      safetySources: curated.sources,
+      safetyConflicts: curated.conflicts,
+      safetyDatasetVersion: curated.datasetVersion,
+      safetyCitations: citeSafetyClaims(curated, gated.lookalikeWarnings, generatedBy),
+      edibility: gated.edibility,
+      lookalikeWarnings: gated.lookalikeWarnings,
+    },
+  };
+}
+
+// Verdicts that permit an exposure become unknown; hazards still stand
+function withholdPermittedVerdicts(analysis: Analysis, acceptedName: string): Analysis {
+  const safety = { ...analysis.safety };
+  for (const route of SAFETY_ROUTES) {
+    if (isPermitted(safety[route])) {
+      const notes = `Unconfirmed: "${analysis.species}" only approximately matches ${acceptedName}. ${safety[route].notes}`;
+      safety[route] = { severity: 'unknown', conditions: [], notes: notes.trim() };
+    }
+  }
+  return { ...analysis, safety };
+}
+
+/**
+ * An analysis for a species the model did not assess, e.g. one a user
+ * corrected a scan to: every verdict is unknown until curated data covers it,
+ * and the model's candidates and warnings, which were about its own answer,
+ * are dropped.
+ */
+export function unassessedAnalysis(analysis: Analysis, species: string): Analysis {
+  const safety = {} as SafetyAssessment;
+  for (const route of SAFETY_ROUTES) {
+    safety[route] = { severity: 'unknown', conditions: [], notes: `Not assessed for ${species}` };
+  }
+  return { ...analysis, species, safety, warnings: '', candidates: [] };
+}
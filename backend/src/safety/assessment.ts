@@ -0,0 +1,101 @@
+import { z } from 'zod';
+
+export const SAFETY_SEVERITIES = ['safe', 'caution', 'harmful', 'severe', 'deadly', 'unknown'] as const;
+
+export const SAFETY_ROUTES = ['ingestion', 'skinContact', 'inhalation', 'pets', 'children'] as const;
+
+export type SafetySeverity = (typeof SAFETY_SEVERITIES)[number];
+export type SafetyRoute = (typeof SAFETY_ROUTES)[number];
+
+// Zod schema for the hazard of one exposure route
+export const routeAssessmentSchema = z.object({
+  severity: z.enum(SAFETY_SEVERITIES).describe(
+    'safe: no known hazard; caution: minor irritation, allergen or safe only under conditions; harmful: causes illness; severe: serious poisoning; deadly: potentially fatal; unknown: cannot be assessed'
+  ),
+  conditions: z.array(z.string()).describe(
+    'Preparation or exposure conditions the verdict depends on, e.g. "only after thorough cooking" or "raw berries only"'
+  ),
+  notes: z.string().describe('Short explanation of the hazard, including allergens'),
+});
+
+// Zod schema for the full per-route safety assessment
+export const safetyAssessmentSchema = z.object({
+  ingestion: routeAssessmentSchema.describe('Eating any part of it (adults)'),
+  skinContact: routeAssessmentSchema.describe('Touching or handling it'),
+  inhalation: routeAssessmentSchema.describe('Breathing its pollen, spores or smoke when burned'),
+  pets: routeAssessmentSchema.describe('Dogs, cats and other pets eating or touching it'),
+  children: routeAssessmentSchema.describe('Young children eating or touching it'),
+});
+
+// Where a route's verdict came from: the curated dataset or the identification model
+export const safetySourceSchema = z.enum(['curated', 'model']);
+
+export const safetySourcesSchema = z.object({
+  ingestion: safetySourceSchema,
+  skinContact: safetySourceSchema,
+  inhalation: safetySourceSchema,
+  pets: safetySourceSchema,
+  children: safetySourceSchema,
+});
+
+// A route where the model's verdict differed from the curated one that replaced it
+export const safetyConflictSchema = z.object({
+  route: z.enum(SAFETY_ROUTES),
+  modelSeverity: z.enum(SAFETY_SEVERITIES),
+  curatedSeverity: z.enum(SAFETY_SEVERITIES),
+});
+
+// Zod schema for what backs a safety claim
+export const safetyCitationSchema = z.discriminatedUnion('kind', [
+  // A verdict in the curated safety dataset
+  z.object({
+    kind: z.literal('dataset'),
+    species: z.string(),
+    route: z.enum(SAFETY_ROUTES),
+    datasetVersion: z.number().int(),
+  }),
+  // A published source a curated verdict was reviewed against
+  z.object({
+    kind: z.literal('reference'),
+    referenceId: z.string(),
+    title: z.string(),
+    url: z.string().nullable(),
+  }),
+  // An edible/toxic pair in the look-alike knowledge base
+  z.object({
+    kind: z.literal('lookalike'),
+    edibleSpecies: z.string(),
+    lookalikeSpecies: z.string(),
+  }),
+  // Generated by the identification model and not checked against any source
+  z.object({
+    kind: z.literal('model'),
+    provider: z.string(),
+    model: z.string(),
+  }),
+]);
+
+// Citations for each route's verdict and for the general warnings
+export const safetyCitationsSchema = z.object({
+  ingestion: z.array(safetyCitationSchema),
+  skinContact: z.array(safetyCitationSchema),
+  inhalation: z.array(safetyCitationSchema),
+  pets: z.array(safetyCitationSchema),
+  children: z.array(safetyCitationSchema),
+  warnings: z.array(safetyCitationSchema),
+});
+
+export type RouteAssessment = z.infer<typeof routeAssessmentSchema>;
+export type SafetyAssessment = z.infer<typeof safetyAssessmentSchema>;
+export type SafetySource = z.infer<typeof safetySourceSchema>;
+export type SafetySources = z.infer<typeof safetySourcesSchema>;
+export type SafetyConflict = z.infer<typeof safetyConflictSchema>;
+export type SafetyCitation = z.infer<typeof safetyCitationSchema>;
+export type SafetyCitations = z.infer<typeof safetyCitationsSchema>;
+
+/**
+ * Whether a route verdict allows the exposure, possibly under its listed conditions.
+ */
+export function isPermitted(assessment: RouteAssessment): boolean {
+  return assessment.severity === 'safe' || assessment.severity === 'caution';
+}
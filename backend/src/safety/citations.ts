@@ -0,0 +1,31 @@
+import type { LookalikeWarning } from '../contracts/scans.js';
+import { SAFETY_ROUTES, type SafetyCitation, type SafetyCitations } from './assessment.js';
+import type { CuratedSafetyResult } from './curated.js';
+
+/**
+ * Attribute every safety claim of an analysis: curated routes cite their
+ * dataset entry and references, the rest and the general warnings are marked
+ * as the model's own, unverified. Ingestion also cites the look-alike pairs
+ * that downgraded it. Without a model, uncurated claims cite nothing.
+ */
+export function citeSafetyClaims(
+  curated: CuratedSafetyResult,
+  lookalikeWarnings: LookalikeWarning[],
+  generatedBy: { provider: string; model: string } | null
+): SafetyCitations {
+  const model: SafetyCitation[] = generatedBy ? [{ kind: 'model', ...generatedBy }] : [];
+
+  const citations = { warnings: model } as SafetyCitations;
+  for (const route of SAFETY_ROUTES) {
+    citations[route] = curated.citations[route] ?? model;
+  }
+  citations.ingestion = [
+    ...citations.ingestion,
+    ...lookalikeWarnings.map((warning): SafetyCitation => ({
+      kind: 'lookalike',
+      edibleSpecies: warning.edibleSpecies,
+      lookalikeSpecies: warning.lookalikeSpecies,
+    })),
+  ];
+  return citations;
+}
@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import curatedDataset from './data/curated-safety.json';
+import referenceData from './data/references.json';
+import type { Analysis } from '../identification/types.js';
+import {
+  routeAssessmentSchema,
+  SAFETY_ROUTES,
+  type RouteAssessment,
+  type SafetyAssessment,
+  type SafetyCitation,
+  type SafetyConflict,
+  type SafetyRoute,
+  type SafetySources,
+} from './assessment.js';
+
+// Zod schema for a published source in the bundled references file
+export const safetyReferenceSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  url: z.string().nullable().default(null),
+});
+
+// Zod schema for one reviewed verdict: a species' hazard for one exposure route
+export const curatedSafetyEntrySchema = routeAssessmentSchema.extend({
+  // Accepted name in the species checklist
+  species: z.string(),
+  route: z.enum(SAFETY_ROUTES),
+  // Ids in the references file the verdict was reviewed against
+  references: z.array(z.string()).default([]),
+});
+
+// Zod schema for the bundled dataset file, which holds the current version only
+export const curatedSafetyDatasetSchema = z.object({
+  version: z.number().int().positive(),
+  // Where the reviewed verdicts came from
+  source: z.string(),
+  importedAt: z.iso.datetime(),
+  entries: z.array(curatedSafetyEntrySchema),
+});
+
+export type CuratedSafetyEntry = z.infer<typeof curatedSafetyEntrySchema>;
+export type CuratedSafetyDataset = z.infer<typeof curatedSafetyDatasetSchema>;
+export type SafetyReference = z.infer<typeof safetyReferenceSchema>;
+
+export interface CuratedSafetyResult {
+  analysis: Analysis;
+  sources: SafetySources;
+  conflicts: SafetyConflict[];
+  // What backs each curated verdict; routes left to the model have none
+  citations: Partial<Record<SafetyRoute, SafetyCitation[]>>;
+  // Dataset version that supplied at least one verdict; null when all of the model's verdicts stand
+  datasetVersion: number | null;
+}
+
+const dataset = curatedSafetyDatasetSchema.parse(curatedDataset);
+const referencesById = new Map(
+  z.array(safetyReferenceSchema).parse(referenceData).map((reference) => [reference.id, reference])
+);
+
+export const CURATED_SAFETY_VERSION = dataset.version;
+
+/**
+ * Whether the references file lists an id
+ */
+export function isKnownReference(id: string): boolean {
+  return referencesById.has(id);
+}
+
+// Reviewed entries per accepted species name and route
+const curatedBySpecies = new Map<string, Partial<Record<SafetyRoute, CuratedSafetyEntry>>>();
+for (const entry of dataset.entries) {
+  const unknown = entry.references.filter((id) => !isKnownReference(id));
+  if (unknown.length > 0) {
+    throw new Error(`Curated ${entry.route} verdict for ${entry.species} cites unknown references: ${unknown.join(', ')}`);
+  }
+  curatedBySpecies.set(entry.species, { ...curatedBySpecies.get(entry.species), [entry.route]: entry });
+}
+
+const citationsOf = (entry: CuratedSafetyEntry): SafetyCitation[] => [
+  { kind: 'dataset', species: entry.species, route: entry.route, datasetVersion: dataset.version },
+  ...entry.references.map((id): SafetyCitation => {
+    const { title, url } = referencesById.get(id)!;
+    return { kind: 'reference', referenceId: id, title, url };
+  }),
+];
+
+/**
+ * The reviewed verdicts for a species, for the routes the dataset covers
+ */
+export function curatedSafetyFor(acceptedName: string): Partial<SafetyAssessment> | null {
+  const entries = curatedBySpecies.get(acceptedName);
+  if (!entries) return null;
+
+  const safety: Partial<SafetyAssessment> = {};
+  for (const { route, severity, conditions, notes } of Object.values(entries)) {
+    safety[route] = { severity, conditions, notes };
+  }
+  return safety;
+}
+
+/**
+ * Replace the model's verdict with the curated one on every route the dataset
+ * covers for the resolved species. Routes where the model reached a different
+ * verdict are reported as conflicts, so a model that contradicts reviewed data
+ * can be spotted.
+ */
+export function applyCuratedSafety(analysis: Analysis, acceptedName: string | null): CuratedSafetyResult {
+  const curated = acceptedName ? curatedBySpecies.get(acceptedName) : undefined;
+
+  const safety = { ...analysis.safety };
+  const sources = {} as SafetySources;
+  const conflicts: SafetyConflict[] = [];
+  const citations: CuratedSafetyResult['citations'] = {};
+  for (const route of SAFETY_ROUTES) {
+    const entry = curated?.[route];
+    if (!entry) {
+      sources[route] = 'model';
+      continue;
+    }
+
+    const reviewed: RouteAssessment = { severity: entry.severity, conditions: entry.conditions, notes: entry.notes };
+    sources[route] = 'curated';
+    // An unassessed route does not contradict anything
+    if (safety[route].severity !== 'unknown' && reviewed.severity !== safety[route].severity) {
+      conflicts.push({ route, modelSeverity: safety[route].severity, curatedSeverity: reviewed.severity });
+    }
+    safety[route] = reviewed;
+    citations[route] = citationsOf(entry);
+  }
+
+  return {
+    analysis: { ...analysis, safety },
+    sources,
+    conflicts,
+    citations,
+    datasetVersion: curated ? dataset.version : null,
+  };
+}
@@ -0,0 +1,166 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { z } from 'zod';
+import { SAFETY_ROUTES } from './assessment.js';
+import {
+  CURATED_SAFETY_VERSION,
+  curatedSafetyDatasetSchema,
+  curatedSafetyEntrySchema,
+  isKnownReference,
+  type CuratedSafetyEntry,
+} from './curated.js';
+import { resolveScientificName } from '../species/resolution.js';
+
+/**
+ * Replace the curated safety dataset with the verdicts in a CSV or JSON file,
+ * as the next version:
+ *
+ *   npm run safety:import -- verdicts.csv --source "Regional poison centre list, 2026"
+ *
+ * CSV files need a header row with species, route, severity, conditions and
+ * notes, and may add references (ids in data/references.json); separate
+ * several conditions or references with semicolons. JSON files hold an array
+ * of objects with the same fields, lists as arrays. The file is the whole
+ * dataset, not a change to the current one.
+ */
+
+const DATASET_PATH = fileURLToPath(new URL('./data/curated-safety.json', import.meta.url));
+
+// A list, or a CSV cell with the items separated by semicolons
+const listSchema = z.union([
+  z.array(z.string()),
+  z.string().transform((cell) => cell.split(';').map((item) => item.trim()).filter(Boolean)),
+]).default([]);
+
+// Species may be written any way the checklist resolves
+const importedEntrySchema = curatedSafetyEntrySchema.extend({
+  conditions: listSchema,
+  references: listSchema,
+});
+
+/**
+ * Rows of a CSV document; quoted fields may contain commas, newlines and doubled quotes
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+const readRecords = async (path: string): Promise<unknown[]> => {
+  const text = await readFile(path, 'utf8');
+  if (extname(path).toLowerCase() === '.csv') {
+    const [header, ...rows] = parseCsv(text);
+    const columns = header.map((column) => column.trim());
+    return rows.map((cells) => Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? ''])));
+  }
+  const parsed: unknown = JSON.parse(text);
+  return Array.isArray(parsed) ? parsed : z.object({ entries: z.array(z.unknown()) }).parse(parsed).entries;
+};
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: { source: { type: 'string' } },
+});
+const [path] = positionals;
+if (!path) {
+  console.error('Usage: npm run safety:import -- <file.csv|file.json> [--source "<where the verdicts come from>"]');
+  process.exit(1);
+}
+
+const records = await readRecords(path);
+const entries: CuratedSafetyEntry[] = [];
+const errors: string[] = [];
+const seen = new Set<string>();
+
+records.forEach((record, index) => {
+  // Spreadsheet row numbers: the header is row 1
+  const label = `Entry ${index + 1}${extname(path).toLowerCase() === '.csv' ? ` (row ${index + 2})` : ''}`;
+  const parsed = importedEntrySchema.safeParse(record);
+  if (!parsed.success) {
+    errors.push(`${label}: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    return;
+  }
+
+  // Only names the checklist knows for certain; a misspelling could put a verdict on the wrong species
+  const { acceptedName, matchType } = resolveScientificName(parsed.data.species);
+  if (!acceptedName || matchType === 'fuzzy') {
+    errors.push(
+      `${label}: ${parsed.data.species} is not in the species checklist` +
+        (acceptedName ? ` (did you mean ${acceptedName}?)` : '')
+    );
+    return;
+  }
+
+  const unknownReferences = parsed.data.references.filter((id) => !isKnownReference(id));
+  if (unknownReferences.length > 0) {
+    errors.push(`${label}: unknown references ${unknownReferences.join(', ')}; add them to the references file first`);
+    return;
+  }
+
+  const key = `${acceptedName}/${parsed.data.route}`;
+  if (seen.has(key)) {
+    errors.push(`${label}: a second ${parsed.data.route} verdict for ${acceptedName}`);
+    return;
+  }
+  seen.add(key);
+  const { route, severity, conditions, notes, references } = parsed.data;
+  entries.push({ species: acceptedName, route, severity, conditions, notes, references });
+});
+
+if (errors.length > 0) {
+  console.error(`Not imported; fix these ${errors.length} entries first:`);
+  errors.forEach((error) => console.error(`  ${error}`));
+  process.exit(1);
+}
+
+entries.sort((a, b) =>
+  a.species.localeCompare(b.species) || SAFETY_ROUTES.indexOf(a.route) - SAFETY_ROUTES.indexOf(b.route)
+);
+const dataset = curatedSafetyDatasetSchema.parse({
+  version: CURATED_SAFETY_VERSION + 1,
+  source: values.source ?? basename(path),
+  importedAt: new Date().toISOString(),
+  entries,
+});
+await writeFile(DATASET_PATH, `${JSON.stringify(dataset, null, 2)}\n`);
+
+console.log(
+  `Wrote curated safety version ${dataset.version}: ${entries.length} verdicts for ` +
+    `${new Set(entries.map((entry) => entry.species)).size} species`
+);
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { Analysis } from '../identification/types.js';
+import { resolveScientificName } from '../species/resolution.js';
+import { SAFETY_ROUTES, type SafetyAssessment } from './assessment.js';
+import { assessSafety } from './assess.js';
+import { applyLookalikeGate } from './lookalikes.js';
+
+// What a model says about a species it considers edible
+const edibleAnalysis = (species: string, candidates: string[] = []): Analysis => {
+  const safety = {} as SafetyAssessment;
+  for (const route of SAFETY_ROUTES) {
+    safety[route] = { severity: 'safe', conditions: [], notes: '' };
+  }
+  return {
+    species,
+    commonName: '',
+    safety,
+    confidence: 'high',
+    warnings: '',
+    description: '',
+    candidates: candidates.map((name) => ({ species: name, commonName: '', confidence: 'low', distinguishingFeatures: '' })),
+  };
+};
+
+const assess = (species: string, candidates: string[] = []) => {
+  const { acceptedName, matchType } = resolveScientificName(species);
+  return assessSafety(edibleAnalysis(species, candidates), { acceptedName, nameMatch: matchType }, null);
+};
+
+test('an edible species with a toxic look-alike is unverified', () => {
+  const { analysis, scanSafety } = assess('Armillaria mellea');
+  assert.equal(scanSafety.edibility, 'unverified');
+  assert.equal(analysis.safety.ingestion.severity, 'unknown');
+  assert.deepEqual(scanSafety.lookalikeWarnings.map((warning) => warning.lookalikeSpecies), ['Galerina marginata']);
+});
+
+test('synonyms are gated like their accepted name', () => {
+  for (const [species, lookalike] of [
+    ['Armillariella mellea (Vahl) P.Karst.', 'Galerina marginata'],
+    ['Lepiota procera', 'Chlorophyllum molybdites'],
+    ['Psalliota campestris', 'Amanita phalloides'],
+  ]) {
+    const { scanSafety } = assess(species);
+    assert.equal(scanSafety.edibility, 'unverified', species);
+    assert.deepEqual(scanSafety.lookalikeWarnings.map((warning) => warning.lookalikeSpecies), [lookalike], species);
+  }
+});
+
+test('misspelled names are gated like the name they resolve to', () => {
+  const { scanSafety } = assess('Armilaria mellea');
+  assert.equal(scanSafety.edibility, 'unverified');
+  assert.deepEqual(scanSafety.lookalikeWarnings.map((warning) => warning.lookalikeSpecies), ['Galerina marginata']);
+});
+
+test('a misspelled name does not let the model call any exposure safe', () => {
+  const { analysis, scanSafety } = assess('Boletus edulus');
+  assert.equal(scanSafety.edibility, 'unverified');
+  for (const route of SAFETY_ROUTES) {
+    assert.equal(analysis.safety[route].severity, 'unknown', route);
+    assert.match(analysis.safety[route].notes, /only approximately matches Boletus edulis/);
+  }
+});
+
+test('an unassessed verdict still carries the look-alike warnings', () => {
+  const analysis = edibleAnalysis('Armillaria mellea');
+  analysis.safety.ingestion = { severity: 'unknown', conditions: [], notes: '' };
+  const gated = applyLookalikeGate(analysis, ['Armillaria mellea']);
+  assert.equal(gated.edibility, 'unverified');
+  assert.deepEqual(gated.lookalikeWarnings.map((warning) => warning.lookalikeSpecies), ['Galerina marginata']);
+});
+
+test('candidates are gated by the names they resolve to', () => {
+  const { scanSafety } = assess('Allium ursinum', ['Allium ursinum', 'Colchicum autumnal']);
+  assert.equal(scanSafety.edibility, 'unverified');
+  assert.deepEqual(
+    scanSafety.lookalikeWarnings.map((warning) => warning.lookalikeSpecies),
+    ['Convallaria majalis', 'Colchicum autumnale']
+  );
+});
+
+test('species without look-alikes keep their verdict', () => {
+  const { analysis, scanSafety } = assess('Fragaria vesca');
+  assert.equal(scanSafety.edibility, 'safe');
+  assert.equal(analysis.safety.ingestion.severity, 'safe');
+  assert.deepEqual(scanSafety.lookalikeWarnings, []);
+});
+
+test('the gate matches accepted names, not what the model wrote', () => {
+  const gated = applyLookalikeGate(edibleAnalysis('Armillaria mellea'), []);
+  assert.equal(gated.edibility, 'safe');
+  assert.equal(applyLookalikeGate(edibleAnalysis('Honey fungus'), ['Armillaria mellea']).edibility, 'unverified');
+});
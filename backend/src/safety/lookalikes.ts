@@ -0,0 +1,87 @@
+import seededLookalikes from './data/lookalikes.json';
+import type { Analysis } from '../identification/types.js';
+import type { Edibility, LookalikeWarning } from '../contracts/scans.js';
+import { isPermitted } from './assessment.js';
+import { isAcceptedName } from '../species/resolution.js';
+
+export type { Edibility, LookalikeWarning };
+
+interface LookalikePair {
+  edible: { species: string; commonName: string };
+  toxic: { species: string; commonName: string };
+  distinguishingTraits: string;
+}
+
+export interface LookalikeGateResult {
+  analysis: Analysis;
+  edibility: Edibility;
+  lookalikeWarnings: LookalikeWarning[];
+}
+
+const lookalikePairs: LookalikePair[] = seededLookalikes;
+
+// Pairs are matched against the names scans resolve to, so every species in them must be one
+for (const pair of lookalikePairs) {
+  for (const { species } of [pair.edible, pair.toxic]) {
+    if (!isAcceptedName(species)) {
+      throw new Error(`Look-alike species ${species} is not an accepted name in the checklist`);
+    }
+  }
+}
+
+/**
+ * Check an edible verdict against the look-alike knowledge base.
+ * `acceptedNames` are the checklist's accepted names for the identified
+ * species and its ranked candidates, however the model spelled them. If any
+ * of them is part of a known edible/toxic pair, edibility is downgraded to
+ * "unverified", the ingestion severity becomes "unknown" and a warning is
+ * attached for each toxic look-alike. An unknown verdict gets the warnings too.
+ */
+export function applyLookalikeGate(analysis: Analysis, acceptedNames: string[]): LookalikeGateResult {
+  // Nobody said it is edible, but nobody said it is not either
+  const unassessed = analysis.safety.ingestion.severity === 'unknown';
+  if (!unassessed && !isPermitted(analysis.safety.ingestion)) {
+    return { analysis, edibility: 'unsafe', lookalikeWarnings: [] };
+  }
+
+  const candidateNames = new Set(acceptedNames);
+
+  const lookalikeWarnings: LookalikeWarning[] = [];
+  for (const pair of lookalikePairs) {
+    const matches = candidateNames.has(pair.edible.species) || candidateNames.has(pair.toxic.species);
+    if (!matches || lookalikeWarnings.some((warning) => warning.lookalikeSpecies === pair.toxic.species)) {
+      continue;
+    }
+    lookalikeWarnings.push({
+      edibleSpecies: pair.edible.species,
+      edibleCommonName: pair.edible.commonName,
+      lookalikeSpecies: pair.toxic.species,
+      lookalikeCommonName: pair.toxic.commonName,
+      distinguishingTraits: pair.distinguishingTraits,
+    });
+  }
+
+  if (unassessed) {
+    return { analysis, edibility: 'unverified', lookalikeWarnings };
+  }
+  if (lookalikeWarnings.length === 0) {
+    return { analysis, edibility: 'safe', lookalikeWarnings };
+  }
+
+  const { ingestion } = analysis.safety;
+  return {
+    analysis: {
+      ...analysis,
+      safety: {
+        ...analysis.safety,
+        ingestion: {
+          ...ingestion,
+          severity: 'unknown',
+          notes: `Edibility unverified: this species has toxic look-alikes. ${ingestion.notes}`.trim(),
+        },
+      },
+    },
+    edibility: 'unverified',
+    lookalikeWarnings,
+  };
+}
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { SAFETY_ROUTES, type SafetyAssessment, type SafetySeverity } from './assessment.js';
+import { DEFAULT_PRESENTATION_POLICY, decidePresentation, loadPresentationPolicy } from './presentation.js';
+
+// The same verdict on every route, with any route set apart
+const verdicts = (severity: SafetySeverity, overrides: Partial<Record<keyof SafetyAssessment, SafetySeverity>> = {}) => {
+  const safety = {} as SafetyAssessment;
+  for (const route of SAFETY_ROUTES) {
+    safety[route] = { severity: overrides[route] ?? severity, conditions: [], notes: '' };
+  }
+  return safety;
+};
+
+test('every verdict is shown when the identification is confident enough', () => {
+  const decision = decidePresentation({ safety: verdicts('safe'), confidence: 'high' }, DEFAULT_PRESENTATION_POLICY);
+  assert.deepEqual(decision, {
+    doNotConsume: false,
+    routes: { ingestion: 'show', skinContact: 'show', inhalation: 'show', pets: 'show', children: 'show' },
+    reasons: [],
+  });
+});
+
+test('at medium confidence, permissive verdicts for eating, pets and children are suppressed', () => {
+  const decision = decidePresentation({ safety: verdicts('safe'), confidence: 'medium' }, DEFAULT_PRESENTATION_POLICY)!;
+  assert.deepEqual(decision.routes, {
+    ingestion: 'suppress',
+    skinContact: 'show',
+    inhalation: 'show',
+    pets: 'suppress',
+    children: 'suppress',
+  });
+  assert.equal(decision.doNotConsume, true);
+  assert.deepEqual(decision.reasons.map(({ route, requiredConfidence }) => ({ route, requiredConfidence })), [
+    { route: 'ingestion', requiredConfidence: 'high' },
+    { route: 'pets', requiredConfidence: 'high' },
+    { route: 'children', requiredConfidence: 'high' },
+  ]);
+  assert.equal(
+    decision.reasons[0].message,
+    'Identification confidence is medium; a safe verdict for eating needs high confidence'
+  );
+});
+
+test('at low confidence, permissive verdicts for touching and inhaling are downgraded', () => {
+  const decision = decidePresentation({ safety: verdicts('caution'), confidence: 'low' }, DEFAULT_PRESENTATION_POLICY)!;
+  assert.deepEqual(decision.routes, {
+    ingestion: 'suppress',
+    skinContact: 'downgrade',
+    inhalation: 'downgrade',
+    pets: 'suppress',
+    children: 'suppress',
+  });
+  assert.equal(decision.reasons.length, 5);
+  assert.ok(decision.reasons.every((reason) => reason.code === 'confidence_below_threshold' && reason.confidence === 'low'));
+});
+
+test('verdicts that warn of a hazard are shown at any confidence', () => {
+  for (const severity of ['harmful', 'severe', 'deadly', 'unknown'] as const) {
+    const decision = decidePresentation({ safety: verdicts(severity), confidence: 'low' }, DEFAULT_PRESENTATION_POLICY)!;
+    assert.ok(Object.values(decision.routes).every((action) => action === 'show'), severity);
+    assert.equal(decision.doNotConsume, false, severity);
+    assert.deepEqual(decision.reasons, [], severity);
+  }
+
+  const mixed = decidePresentation(
+    { safety: verdicts('safe', { ingestion: 'deadly' }), confidence: 'low' },
+    DEFAULT_PRESENTATION_POLICY
+  )!;
+  assert.equal(mixed.routes.ingestion, 'show');
+  assert.equal(mixed.doNotConsume, false);
+  assert.equal(mixed.routes.pets, 'suppress');
+});
+
+test('a scan without an analysis has no decision', () => {
+  assert.equal(decidePresentation({ safety: null, confidence: null }, DEFAULT_PRESENTATION_POLICY), null);
+});
+
+test('PRESENTATION_POLICY overrides only the routes and fields it names', () => {
+  assert.deepEqual(loadPresentationPolicy(undefined), DEFAULT_PRESENTATION_POLICY);
+  assert.deepEqual(loadPresentationPolicy(''), DEFAULT_PRESENTATION_POLICY);
+
+  const policy = loadPresentationPolicy('{"skinContact":{"minConfidence":"high"},"pets":{"below":"downgrade"}}');
+  assert.deepEqual(policy, {
+    ...DEFAULT_PRESENTATION_POLICY,
+    skinContact: { minConfidence: 'high', below: 'downgrade' },
+    pets: { minConfidence: 'high', below: 'downgrade' },
+  });
+  const decision = decidePresentation({ safety: verdicts('safe'), confidence: 'medium' }, policy)!;
+  assert.equal(decision.routes.skinContact, 'downgrade');
+  assert.equal(decision.routes.pets, 'downgrade');
+});
+
+test('an invalid PRESENTATION_POLICY is refused rather than ignored', () => {
+  for (const value of [
+    'not json',
+    '[]',
+    '{"ingestoin":{"minConfidence":"low"}}',
+    '{"ingestion":{"minConfidence":"very low"}}',
+    '{"ingestion":{"below":"hide"}}',
+    '{"ingestion":{"minConfidance":"low"}}',
+  ]) {
+    assert.throws(() => loadPresentationPolicy(value), /Invalid PRESENTATION_POLICY/, value);
+  }
+});
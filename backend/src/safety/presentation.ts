@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import type { Analysis } from '../identification/types.js';
+import type { PresentationDecision, PresentationReason } from '../contracts/scans.js';
+import { isPermitted, SAFETY_ROUTES, type SafetyAssessment, type SafetyRoute } from './assessment.js';
+
+type Confidence = Analysis['confidence'];
+
+const CONFIDENCE_RANK: Record<Confidence, number> = { low: 0, medium: 1, high: 2 };
+
+// Zod schema for one route's rule: the confidence a permissive verdict needs, and what happens below it
+const routePolicySchema = z.object({
+  minConfidence: z.enum(['high', 'medium', 'low']),
+  below: z.enum(['downgrade', 'suppress']),
+});
+
+export type RoutePolicy = z.infer<typeof routePolicySchema>;
+export type PresentationPolicy = Record<SafetyRoute, RoutePolicy>;
+
+// Being wrong about eating, or about pets and children who cannot judge for themselves, costs the most
+export const DEFAULT_PRESENTATION_POLICY: PresentationPolicy = {
+  ingestion: { minConfidence: 'high', below: 'suppress' },
+  skinContact: { minConfidence: 'medium', below: 'downgrade' },
+  inhalation: { minConfidence: 'medium', below: 'downgrade' },
+  pets: { minConfidence: 'high', below: 'suppress' },
+  children: { minConfidence: 'high', below: 'suppress' },
+};
+
+// Overrides per route; a route or field left out keeps its default, a misspelt one is an error
+const routeOverridesSchema = routePolicySchema.partial().strict();
+const policyOverridesSchema = z.object({
+  ingestion: routeOverridesSchema,
+  skinContact: routeOverridesSchema,
+  inhalation: routeOverridesSchema,
+  pets: routeOverridesSchema,
+  children: routeOverridesSchema,
+}).partial().strict();
+
+/**
+ * Confidence levels at or above a minimum
+ */
+export function confidenceLevelsFrom(minConfidence: Confidence): Confidence[] {
+  return (Object.keys(CONFIDENCE_RANK) as Confidence[])
+    .filter((level) => CONFIDENCE_RANK[level] >= CONFIDENCE_RANK[minConfidence]);
+}
+
+const ROUTE_NOUNS: Record<SafetyRoute, string> = {
+  ingestion: 'eating',
+  skinContact: 'touching',
+  inhalation: 'inhaling',
+  pets: 'pets',
+  children: 'children',
+};
+
+/**
+ * The presentation policy, with the overrides in PRESENTATION_POLICY applied,
+ * e.g. {"skinContact":{"minConfidence":"high"}}. Throws on an invalid value,
+ * so a typo fails at startup rather than loosening the policy.
+ */
+export function loadPresentationPolicy(overrides: string | undefined = process.env.PRESENTATION_POLICY): PresentationPolicy {
+  if (!overrides) {
+    return DEFAULT_PRESENTATION_POLICY;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(overrides);
+  } catch {
+    throw new Error('Invalid PRESENTATION_POLICY: not JSON');
+  }
+  const parsed = policyOverridesSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(`Invalid PRESENTATION_POLICY: ${parsed.error.message}`);
+  }
+  const policy = { ...DEFAULT_PRESENTATION_POLICY };
+  for (const route of SAFETY_ROUTES) {
+    policy[route] = { ...policy[route], ...parsed.data[route] };
+  }
+  return policy;
+}
+
+export interface PresentableScan {
+  // Both null until the scan is analysed
+  safety: SafetyAssessment | null;
+  confidence: Confidence | null;
+}
+
+/**
+ * Decide how a scan's verdicts may be shown. A verdict that allows an
+ * exposure is only as good as the identification behind it, so below the
+ * route's confidence threshold it is downgraded or suppressed; verdicts that
+ * warn of a hazard are always shown. Null for a scan without an analysis.
+ */
+export function decidePresentation(scan: PresentableScan, policy: PresentationPolicy): PresentationDecision | null {
+  const { safety, confidence } = scan;
+  if (!safety || !confidence) {
+    return null;
+  }
+
+  const routes = {} as PresentationDecision['routes'];
+  const reasons: PresentationReason[] = [];
+  for (const route of SAFETY_ROUTES) {
+    const { minConfidence, below } = policy[route];
+    const assessment = safety[route];
+    if (!isPermitted(assessment) || CONFIDENCE_RANK[confidence] >= CONFIDENCE_RANK[minConfidence]) {
+      routes[route] = 'show';
+      continue;
+    }
+
+    routes[route] = below;
+    reasons.push({
+      code: 'confidence_below_threshold',
+      route,
+      confidence,
+      requiredConfidence: minConfidence,
+      message:
+        `Identification confidence is ${confidence}; ` +
+        `a ${assessment.severity} verdict for ${ROUTE_NOUNS[route]} needs ${minConfidence} confidence`,
+    });
+  }
+
+  return { doNotConsume: routes.ingestion !== 'show', routes, reasons };
+}
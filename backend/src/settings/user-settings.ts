@@ -0,0 +1,20 @@
+import { eq } from 'drizzle-orm';
+import type { App } from '../index.js';
+import * as schema from '../db/schema.js';
+
+export type UserSettings = Pick<typeof schema.userSettings.$inferSelect, 'locationPrecision'>;
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  locationPrecision: 'approximate',
+};
+
+/**
+ * Settings for a user, falling back to defaults until they save any
+ */
+export async function getUserSettings(app: App, userId: string): Promise<UserSettings> {
+  const settings = await app.db.query.userSettings.findFirst({
+    where: eq(schema.userSettings.userId, userId),
+  });
+
+  return settings ? { locationPrecision: settings.locationPrecision } : DEFAULT_USER_SETTINGS;
+}
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { eq, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import { createTestApp, type TestApp } from '../testing/test-app.js';
+import { resolveScanSpecies, resolveUnresolvedScans } from './catalog.js';
+
+const USER_ID = 'catalog-user';
+
+let testApp: TestApp;
+
+before(async () => {
+  testApp = await createTestApp();
+  await testApp.createUser(USER_ID);
+});
+
+after(async () => {
+  await testApp.close();
+});
+
+// An analysed scan of a species whose name has not been linked to the catalog
+const unlinkedScan = async (resolutionRevision: string | null) => {
+  const [scan] = await testApp.app.db.insert(schema.scans)
+    .values({ userId: USER_ID, imageKey: 'scans/test.jpg', status: 'complete', species: 'Amanita phalloides', resolutionRevision })
+    .returning({ id: schema.scans.id });
+  return scan.id;
+};
+
+test('the startup sync only retries scans resolved against an older checklist or catalog', async () => {
+  const { resolutionRevision: current } = await resolveScanSpecies(testApp.app, 'Amanita phalloides');
+  const triedAlready = await unlinkedScan(current);
+  const outdated = await unlinkedScan('0000000000000000');
+  const neverTried = await unlinkedScan(null);
+
+  assert.equal(await resolveUnresolvedScans(testApp.app), 2);
+
+  const rows = await testApp.app.db.select().from(schema.scans)
+    .where(inArray(schema.scans.id, [triedAlready, outdated, neverTried]));
+  const byId = new Map<string, typeof schema.scans.$inferSelect>(rows.map((row) => [row.id, row]));
+  assert.equal(byId.get(triedAlready)!.nameMatch, null);
+  for (const id of [outdated, neverTried]) {
+    assert.equal(byId.get(id)!.acceptedName, 'Amanita phalloides');
+    assert.equal(byId.get(id)!.nameMatch, 'exact');
+    assert.ok(byId.get(id)!.speciesId);
+    assert.equal(byId.get(id)!.resolutionRevision, current);
+  }
+
+  // Nothing is left to retry until the files change
+  assert.equal(await resolveUnresolvedScans(testApp.app), 0);
+  const [unchanged] = await testApp.app.db.select().from(schema.scans).where(eq(schema.scans.id, triedAlready));
+  assert.equal(unchanged.nameMatch, null);
+});
@@ -0,0 +1,107 @@
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import { and, eq, isNotNull, isNull, ne, or, sql } from 'drizzle-orm';
+import seededCatalog from './data/catalog.json';
+import checklistData from './data/checklist.json';
+import type { App } from '../index.js';
+import * as schema from '../db/schema.js';
+import type { NameMatchType } from '../contracts/scans.js';
+import { speciesCatalogEntrySchema, type SpeciesCatalogEntry } from '../contracts/species.js';
+import { curatedSafetyFor } from '../safety/curated.js';
+import { isAcceptedName, resolveScientificName, synonymsOf } from './resolution.js';
+
+const catalogEntries: SpeciesCatalogEntry[] = z.array(speciesCatalogEntrySchema).parse(seededCatalog);
+
+// Scans link to catalog entries through accepted names, so every entry needs one
+for (const entry of catalogEntries) {
+  if (!isAcceptedName(entry.scientificName)) {
+    throw new Error(`Catalog species ${entry.scientificName} is not an accepted name in the checklist`);
+  }
+}
+
+// Changes whenever the checklist or the catalog's species do, i.e. whenever a name could resolve differently
+const RESOLUTION_REVISION = createHash('sha256')
+  .update(JSON.stringify([checklistData, catalogEntries.map((entry) => entry.scientificName)]))
+  .digest('hex')
+  .slice(0, 16);
+
+export interface ScanSpeciesResolution {
+  acceptedName: string | null;
+  nameMatch: NameMatchType;
+  speciesId: string | null;
+  resolutionRevision: string;
+}
+
+/**
+ * Resolve a scan's scientific name against the checklist and find the
+ * catalog species for the accepted name, ready to store on the scan
+ */
+export async function resolveScanSpecies(app: App, name: string): Promise<ScanSpeciesResolution> {
+  const { acceptedName, matchType } = resolveScientificName(name);
+  if (!acceptedName) {
+    return { acceptedName, nameMatch: matchType, speciesId: null, resolutionRevision: RESOLUTION_REVISION };
+  }
+
+  const row = await app.db.query.species.findFirst({
+    columns: { id: true },
+    where: eq(schema.species.scientificName, acceptedName),
+  });
+  return { acceptedName, nameMatch: matchType, speciesId: row?.id ?? null, resolutionRevision: RESOLUTION_REVISION };
+}
+
+/**
+ * Resolve analysed scans whose name has not been resolved yet, or that have
+ * no catalog species, e.g. those analysed before the checklist or catalog
+ * knew their species. Scans already tried against the current checklist and
+ * catalog are left alone. Returns how many were linked to a species.
+ */
+export async function resolveUnresolvedScans(app: App): Promise<number> {
+  const unresolved = and(
+    isNotNull(schema.scans.species),
+    or(isNull(schema.scans.nameMatch), isNull(schema.scans.speciesId)),
+    or(isNull(schema.scans.resolutionRevision), ne(schema.scans.resolutionRevision, RESOLUTION_REVISION))
+  );
+  const names = await app.db.selectDistinct({ species: schema.scans.species })
+    .from(schema.scans)
+    .where(unresolved);
+
+  let linked = 0;
+  for (const { species } of names) {
+    const resolution = await resolveScanSpecies(app, species);
+    const updated = await app.db.update(schema.scans)
+      .set(resolution)
+      .where(and(unresolved, eq(schema.scans.species, species)))
+      .returning({ id: schema.scans.id });
+    if (resolution.speciesId) {
+      linked += updated.length;
+    }
+  }
+  return linked;
+}
+
+/**
+ * Bring the species table in line with the bundled catalog, checklist and
+ * curated safety files, then resolve the scans they could not resolve before. Entries
+ * removed from the catalog stay in the table, since scans may point at them.
+ */
+export async function syncSpeciesCatalog(app: App): Promise<void> {
+  await app.db.insert(schema.species)
+    .values(catalogEntries.map((entry) => ({
+      ...entry,
+      synonyms: synonymsOf(entry.scientificName),
+      safety: curatedSafetyFor(entry.scientificName),
+    })))
+    .onConflictDoUpdate({
+      target: schema.species.scientificName,
+      set: {
+        synonyms: sql`excluded.synonyms`,
+        ranks: sql`excluded.ranks`,
+        commonNames: sql`excluded.common_names`,
+        safety: sql`excluded.safety`,
+        updatedAt: new Date(),
+      },
+    });
+
+  const linked = await resolveUnresolvedScans(app);
+  app.logger.info({ species: catalogEntries.length, linkedScans: linked }, 'Species catalog synced');
+}
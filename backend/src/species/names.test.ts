@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { levenshteinDistance, normalizeScientificName } from './names.js';
+
+test('authorship, casing and hybrid signs are dropped', () => {
+  assert.equal(normalizeScientificName('TOXICODENDRON RADICANS (L.) Kuntze'), 'Toxicodendron radicans');
+  assert.equal(normalizeScientificName('  Armillariella   mellea (Vahl) P.Karst. '), 'Armillariella mellea');
+  assert.equal(normalizeScientificName('Mentha × piperita L.'), 'Mentha piperita');
+  assert.equal(normalizeScientificName('Mentha x piperita'), 'Mentha piperita');
+});
+
+test('infraspecific ranks are kept in their canonical abbreviation', () => {
+  assert.equal(normalizeScientificName('Sambucus nigra ssp. canadensis'), 'Sambucus nigra subsp. canadensis');
+  assert.equal(normalizeScientificName('Sambucus nigra L. subspecies Canadensis (L.) Bolli'), 'Sambucus nigra subsp. canadensis');
+  assert.equal(normalizeScientificName('Daucus carota var sativus'), 'Daucus carota var. sativus');
+});
+
+test('a genus without a species stays a genus', () => {
+  assert.equal(normalizeScientificName('Amanita sp.'), 'Amanita');
+  assert.equal(normalizeScientificName('amanita'), 'Amanita');
+});
+
+test('input that does not start with a genus is not a name', () => {
+  assert.equal(normalizeScientificName(''), null);
+  assert.equal(normalizeScientificName('123 mushrooms'), null);
+});
+
+test('edit distance counts insertions, deletions and substitutions', () => {
+  assert.equal(levenshteinDistance('mellea', 'mellea'), 0);
+  assert.equal(levenshteinDistance('Armilaria', 'Armillaria'), 1);
+  assert.equal(levenshteinDistance('edulus', 'edulis'), 1);
+  assert.equal(levenshteinDistance('', 'abc'), 3);
+});
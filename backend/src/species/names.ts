@@ -0,0 +1,75 @@
+// Infraspecific rank markers as written in the wild, by their canonical abbreviation
+const RANK_MARKERS: Record<string, string> = {
+  'subsp.': 'subsp.',
+  subsp: 'subsp.',
+  'ssp.': 'subsp.',
+  ssp: 'subsp.',
+  subspecies: 'subsp.',
+  'var.': 'var.',
+  var: 'var.',
+  variety: 'var.',
+  'f.': 'f.',
+  f: 'f.',
+  forma: 'f.',
+  form: 'f.',
+};
+
+// Written after a genus when the species is not known
+const UNKNOWN_SPECIES = new Set(['sp', 'sp.', 'spp', 'spp.']);
+
+const NAME_PART = /^[a-z][a-z-]*$/i;
+
+/**
+ * Canonical form of a scientific name: "Genus epithet", followed by
+ * "subsp.", "var." or "f." and the infraspecific epithet when there is one.
+ * Authorship, years, hybrid signs and casing are dropped, so
+ * "TOXICODENDRON RADICANS (L.) Kuntze" becomes "Toxicodendron radicans".
+ * Returns null for input that does not start with a genus.
+ */
+export function normalizeScientificName(name: string): string | null {
+  const tokens = name.replace(/[×"'“”]/g, ' ').trim().split(/\s+/).filter(Boolean);
+  // Epithets come right after the genus and after a rank marker, in whatever
+  // case the model wrote them; authors abbreviate or come later
+  const isEpithet = (token: string | undefined): token is string =>
+    !!token && NAME_PART.test(token) && !RANK_MARKERS[token.toLowerCase()];
+
+  const [genus, ...rest] = tokens;
+  if (!genus || !NAME_PART.test(genus)) return null;
+  const parts = [genus[0].toUpperCase() + genus.slice(1).toLowerCase()];
+
+  // A lone "x" between genus and epithet marks a hybrid
+  const epithets = rest[0]?.toLowerCase() === 'x' ? rest.slice(1) : rest;
+  if (UNKNOWN_SPECIES.has(epithets[0]?.toLowerCase() ?? '') || !isEpithet(epithets[0])) {
+    return parts[0];
+  }
+  parts.push(epithets[0].toLowerCase());
+
+  // Authorship may sit between the species and the infraspecific rank
+  const markerIndex = epithets.findIndex((token, index) => index > 0 && !!RANK_MARKERS[token.toLowerCase()]);
+  const infraspecific = epithets[markerIndex + 1];
+  if (markerIndex > 0 && isEpithet(infraspecific)) {
+    parts.push(RANK_MARKERS[epithets[markerIndex].toLowerCase()], infraspecific.toLowerCase());
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Edit distance between two strings, counting insertions, deletions and
+ * substitutions
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { resolveScientificName } from './resolution.js';
+
+const resolve = (name: string) => {
+  const { acceptedName, matchType } = resolveScientificName(name);
+  return { acceptedName, matchType };
+};
+
+test('accepted names match exactly, with or without authorship', () => {
+  assert.deepEqual(resolve('Armillaria mellea'), { acceptedName: 'Armillaria mellea', matchType: 'exact' });
+  assert.deepEqual(resolve('armillaria mellea (Vahl) P.Kumm.'), { acceptedName: 'Armillaria mellea', matchType: 'exact' });
+});
+
+test('synonyms resolve to their accepted name, with or without authorship', () => {
+  assert.deepEqual(resolve('Armillariella mellea (Vahl) P.Karst.'), { acceptedName: 'Armillaria mellea', matchType: 'synonym' });
+  assert.deepEqual(resolve('Rhus toxicodendron L.'), { acceptedName: 'Toxicodendron radicans', matchType: 'synonym' });
+  assert.deepEqual(resolve('Lepiota procera'), { acceptedName: 'Macrolepiota procera', matchType: 'synonym' });
+});
+
+test('an infraspecific name the checklist does not list falls back to its species', () => {
+  const resolution = resolveScientificName('Sambucus nigra subsp. canadensis');
+  assert.equal(resolution.normalizedName, 'Sambucus nigra subsp. canadensis');
+  assert.equal(resolution.acceptedName, 'Sambucus nigra');
+  assert.equal(resolution.matchType, 'exact');
+});
+
+test('small misspellings match fuzzily, up to two edits', () => {
+  assert.deepEqual(resolve('Armilaria mellea'), { acceptedName: 'Armillaria mellea', matchType: 'fuzzy' });
+  assert.deepEqual(resolve('Armilaria melea'), { acceptedName: 'Armillaria mellea', matchType: 'fuzzy' });
+  assert.deepEqual(resolve('Armilaia melea'), { acceptedName: null, matchType: 'none' });
+});
+
+test('short names tolerate fewer edits', () => {
+  // 12 characters allow one edit
+  assert.deepEqual(resolve('Hedera helex'), { acceptedName: 'Hedera helix', matchType: 'fuzzy' });
+  assert.deepEqual(resolve('Hedara helex'), { acceptedName: null, matchType: 'none' });
+});
+
+test('names the checklist does not know do not match', () => {
+  assert.deepEqual(resolve('Quercus robur'), { acceptedName: null, matchType: 'none' });
+  assert.deepEqual(resolveScientificName('42 mushrooms'), { normalizedName: null, acceptedName: null, matchType: 'none' });
+});
@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import checklistData from './data/checklist.json';
+import type { NameMatchType } from '../contracts/scans.js';
+import { levenshteinDistance, normalizeScientificName } from './names.js';
+
+// Zod schema for an accepted name in the bundled checklist, with the names it replaced
+const checklistEntrySchema = z.object({
+  name: z.string(),
+  authorship: z.string(),
+  synonyms: z.array(z.string()),
+});
+
+export interface NameResolution {
+  // Canonical form of the input; null when it is not a scientific name at all
+  normalizedName: string | null;
+  // Accepted name the input resolves to; null when nothing matched
+  acceptedName: string | null;
+  matchType: NameMatchType;
+}
+
+// Misspellings tolerated by fuzzy matching, at most this many edits...
+const MAX_FUZZY_DISTANCE = 2;
+// ...and at most this share of the name's length, so short names need a closer match
+const MAX_FUZZY_RATIO = 0.15;
+
+const checklist = z.array(checklistEntrySchema).parse(checklistData);
+
+// Canonical accepted names, and canonical synonyms mapped to their accepted name
+const acceptedNames = new Set<string>();
+const synonymNames = new Map<string, string>();
+const synonymsByAcceptedName = new Map<string, string[]>();
+for (const entry of checklist) {
+  const accepted = normalizeScientificName(entry.name)!;
+  const synonyms = entry.synonyms.map((synonym) => normalizeScientificName(synonym)!);
+  acceptedNames.add(accepted);
+  synonymsByAcceptedName.set(accepted, synonyms);
+  for (const synonym of synonyms) {
+    synonymNames.set(synonym, accepted);
+  }
+}
+const knownNames = [...acceptedNames, ...synonymNames.keys()];
+
+/**
+ * Whether the checklist lists a name as accepted
+ */
+export function isAcceptedName(name: string): boolean {
+  return acceptedNames.has(name);
+}
+
+/**
+ * Synonyms of an accepted name, in canonical form
+ */
+export function synonymsOf(acceptedName: string): string[] {
+  return synonymsByAcceptedName.get(acceptedName) ?? [];
+}
+
+const acceptedNameOf = (name: string) => (acceptedNames.has(name) ? name : synonymNames.get(name)!);
+
+// The closest known name within the allowed distance, unless two accepted names tie for it
+const closestKnownName = (name: string): string | null => {
+  const allowed = Math.min(MAX_FUZZY_DISTANCE, Math.floor(name.length * MAX_FUZZY_RATIO));
+  let best: { distance: number; accepted: Set<string> } = { distance: allowed + 1, accepted: new Set() };
+  for (const known of knownNames) {
+    if (Math.abs(known.length - name.length) > allowed) continue;
+    const distance = levenshteinDistance(name, known);
+    if (distance < best.distance) {
+      best = { distance, accepted: new Set([acceptedNameOf(known)]) };
+    } else if (distance === best.distance && best.accepted.size > 0) {
+      best.accepted.add(acceptedNameOf(known));
+    }
+  }
+  return best.accepted.size === 1 ? [...best.accepted][0] : null;
+};
+
+/**
+ * Resolve a scientific name, as a model or a user wrote it, to an accepted
+ * name in the bundled checklist. Authorship, rank abbreviations and casing
+ * are normalised first; then the name is matched exactly, as a synonym, or
+ * fuzzily to tolerate small misspellings. An infraspecific name the checklist
+ * does not list falls back to its species.
+ */
+export function resolveScientificName(name: string): NameResolution {
+  const normalizedName = normalizeScientificName(name);
+  if (!normalizedName) {
+    return { normalizedName, acceptedName: null, matchType: 'none' };
+  }
+
+  const binomial = normalizedName.split(' ').slice(0, 2).join(' ');
+  const forms = binomial === normalizedName ? [normalizedName] : [normalizedName, binomial];
+
+  for (const form of forms) {
+    if (acceptedNames.has(form)) {
+      return { normalizedName, acceptedName: form, matchType: 'exact' };
+    }
+    const accepted = synonymNames.get(form);
+    if (accepted) {
+      return { normalizedName, acceptedName: accepted, matchType: 'synonym' };
+    }
+  }
+
+  for (const form of forms) {
+    const accepted = closestKnownName(form);
+    if (accepted) {
+      return { normalizedName, acceptedName: accepted, matchType: 'fuzzy' };
+    }
+  }
+
+  return { normalizedName, acceptedName: null, matchType: 'none' };
+}
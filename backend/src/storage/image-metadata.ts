@@ -0,0 +1,37 @@
+import exifr from 'exifr';
+import sharp from 'sharp';
+import type { ImageMimeType } from '../identification/types.js';
+import type { Coordinates } from '../location/precision.js';
+
+/**
+ * GPS position from the image's EXIF block, if the camera recorded one
+ */
+export async function readExifLocation(image: Buffer): Promise<Coordinates | null> {
+  try {
+    const gps = await exifr.gps(image);
+    if (!gps || !Number.isFinite(gps.latitude) || !Number.isFinite(gps.longitude)) {
+      return null;
+    }
+    return { latitude: gps.latitude, longitude: gps.longitude };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Re-encode the image without EXIF, XMP or IPTC blocks (sharp drops them by
+ * default). Orientation must already be applied to the pixels.
+ */
+export async function stripImageMetadata(image: Buffer, mimeType: ImageMimeType): Promise<Buffer> {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return sharp(image).jpeg({ quality: 92 }).toBuffer();
+    case 'image/png':
+      return sharp(image).png().toBuffer();
+    case 'image/webp':
+      return sharp(image).webp({ quality: 92 }).toBuffer();
+    default:
+      // GIF has no EXIF block to strip
+      return image;
+  }
+}
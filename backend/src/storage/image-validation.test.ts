@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { test } from 'node:test';
+import sharp from 'sharp';
+import { normalizeUploadedImage, sniffImageType } from './image-validation.js';
+
+// A 160x128 HEVC-coded HEIC, green on the left half and red on the right.
+// Sharp's bundled libheif can read its header but not decode its pixels.
+const HEVC_HEIC = new URL('./fixtures/hevc.heic', import.meta.url);
+
+// An ftyp box with the given major and compatible brands, as a file starts
+const ftyp = (majorBrand: string, ...compatibleBrands: string[]) => {
+  const box = Buffer.alloc(16 + 4 * compatibleBrands.length);
+  box.writeUInt32BE(box.length, 0);
+  box.write(`ftyp${majorBrand}`, 4, 'latin1');
+  compatibleBrands.forEach((brand, i) => box.write(brand, 16 + 4 * i, 'latin1'));
+  return box;
+};
+
+test('HEVC-coded HEIC is decoded and converted to JPEG', async () => {
+  const image = await normalizeUploadedImage(await readFile(HEVC_HEIC));
+  assert.equal(image.mimeType, 'image/jpeg');
+  assert.equal(image.extension, 'jpg');
+  assert.deepEqual([image.width, image.height], [160, 128]);
+
+  const { data, info } = await sharp(image.buffer).raw().toBuffer({ resolveWithObject: true });
+  const pixel = (x: number, y: number) => [...data.subarray((y * info.width + x) * 3, (y * info.width + x) * 3 + 3)];
+  const near = (actual: number[], expected: number[]) =>
+    assert.ok(actual.every((value, i) => Math.abs(value - expected[i]) <= 8), `${actual} is not close to ${expected}`);
+  near(pixel(20, 64), [40, 160, 60]);
+  near(pixel(140, 64), [200, 40, 40]);
+});
+
+test('generic HEIF brands count as HEIC only with a HEVC compatible brand', () => {
+  assert.equal(sniffImageType(ftyp('heic', 'mif1', 'heic')), 'image/heic');
+  assert.equal(sniffImageType(ftyp('mif1', 'mif1', 'heic')), 'image/heic');
+  assert.equal(sniffImageType(ftyp('mif1', 'mif1', 'avif')), null);
+  assert.equal(sniffImageType(ftyp('avif', 'mif1', 'avif')), null);
+});
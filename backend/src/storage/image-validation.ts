@@ -0,0 +1,185 @@
+import sharp from 'sharp';
+import type { ImageMimeType } from '../identification/types.js';
+
+// Longest edge and total pixel count accepted for uploads
+export const MAX_IMAGE_DIMENSION = 8000;
+export const MAX_IMAGE_PIXELS = 40_000_000;
+// Anything smaller is too little detail to identify a species
+export const MIN_IMAGE_DIMENSION = 64;
+
+type SniffedType = ImageMimeType | 'image/heic';
+
+const EXTENSIONS: Record<ImageMimeType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+// ISO-BMFF brands of HEVC-coded HEIF images and sequences, as phone cameras write them
+const HEIC_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs']);
+// Generic HEIF brands, which say nothing about the codec (AVIF files carry them too)
+const GENERIC_HEIF_BRANDS = new Set(['mif1', 'msf1']);
+
+/**
+ * Rejected upload. 415 for content that is not a supported image type,
+ * 422 for a supported type that cannot be used (corrupt, too large, too small).
+ */
+export class ImageValidationError extends Error {
+  constructor(
+    readonly statusCode: 415 | 422,
+    readonly code: 'unsupported_media_type' | 'undecodable_image' | 'dimensions_out_of_range',
+    message: string
+  ) {
+    super(message);
+    this.name = 'ImageValidationError';
+  }
+}
+
+export interface NormalizedImage {
+  buffer: Buffer;
+  mimeType: ImageMimeType;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Detect the image type from its magic bytes, ignoring any client-declared type
+ */
+export function sniffImageType(buffer: Buffer): SniffedType | null {
+  if (buffer.length < 12) return null;
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  const header = buffer.toString('latin1', 0, 6);
+  if (header === 'GIF87a' || header === 'GIF89a') {
+    return 'image/gif';
+  }
+  if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (buffer.toString('latin1', 4, 8) === 'ftyp' && isHeic(buffer)) {
+    return 'image/heic';
+  }
+
+  return null;
+}
+
+/**
+ * Whether an ISO-BMFF file is HEVC-coded HEIF: its major brand is a HEIC
+ * brand, or it is a generic HEIF brand and the compatible brands list one
+ */
+function isHeic(buffer: Buffer): boolean {
+  const majorBrand = buffer.toString('latin1', 8, 12);
+  if (HEIC_BRANDS.has(majorBrand)) return true;
+  if (!GENERIC_HEIF_BRANDS.has(majorBrand)) return false;
+
+  // Compatible brands follow the major brand and minor version, up to the end of the ftyp box
+  const ftypEnd = Math.min(buffer.readUInt32BE(0), buffer.length);
+  for (let offset = 16; offset + 4 <= ftypEnd; offset += 4) {
+    if (HEIC_BRANDS.has(buffer.toString('latin1', offset, offset + 4))) return true;
+  }
+  return false;
+}
+
+/**
+ * Decode HEVC-coded HEIF to JPEG. Sharp's prebuilt libvips only decodes AV1
+ * (AVIF), so this uses libheif's HEVC decoder, built to WebAssembly. libheif
+ * applies the image's rotation and mirroring while decoding.
+ */
+async function heicToJpeg(buffer: Buffer): Promise<{ buffer: Buffer; width: number; height: number }> {
+  const { default: decodeHeic } = await import('heic-decode');
+  const { data, width, height } = await decodeHeic({ buffer }).catch(() => {
+    throw new ImageValidationError(422, 'undecodable_image', 'The image could not be decoded.');
+  });
+  const jpeg = await sharp(data, { raw: { width, height, channels: 4 } }).jpeg({ quality: 90 }).toBuffer();
+  return { buffer: jpeg, width, height };
+}
+
+/**
+ * Type of a stored image from its key, which always ends in the extension of
+ * its detected type
+ */
+export function imageMimeTypeFromKey(key: string): ImageMimeType | null {
+  const extension = key.slice(key.lastIndexOf('.') + 1).toLowerCase();
+  const match = Object.entries(EXTENSIONS).find(([, known]) => known === extension);
+  return match ? (match[0] as ImageMimeType) : null;
+}
+
+/**
+ * Make a client-supplied filename safe to use in a storage key
+ */
+export function sanitizeFilename(filename: string | undefined, extension: string): string {
+  const base = (filename ?? '')
+    .split(/[\\/]/)
+    .pop()!
+    .replace(/\.[^.]*$/, '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+
+  return `${base || 'image'}.${extension}`;
+}
+
+/**
+ * Validate an uploaded image and normalise it for analysis and storage:
+ * HEIC is converted to JPEG and EXIF orientation is baked into the pixels.
+ * Throws ImageValidationError for anything that should not be accepted.
+ */
+export async function normalizeUploadedImage(buffer: Buffer): Promise<NormalizedImage> {
+  const sniffed = sniffImageType(buffer);
+  if (!sniffed) {
+    throw new ImageValidationError(
+      415,
+      'unsupported_media_type',
+      'Unsupported image type. Upload a JPEG, PNG, GIF, WebP or HEIC image.'
+    );
+  }
+
+  const metadata = await sharp(buffer).metadata().catch(() => {
+    throw new ImageValidationError(422, 'undecodable_image', 'The image could not be decoded.');
+  });
+
+  const { width, height, orientation } = metadata;
+  if (!width || !height) {
+    throw new ImageValidationError(422, 'undecodable_image', 'The image could not be decoded.');
+  }
+
+  if (
+    Math.max(width, height) > MAX_IMAGE_DIMENSION ||
+    width * height > MAX_IMAGE_PIXELS ||
+    Math.min(width, height) < MIN_IMAGE_DIMENSION
+  ) {
+    throw new ImageValidationError(
+      422,
+      'dimensions_out_of_range',
+      `Image dimensions ${width}x${height} are outside the accepted range ` +
+        `(${MIN_IMAGE_DIMENSION}-${MAX_IMAGE_DIMENSION}px per side).`
+    );
+  }
+
+  // EXIF orientations 5-8 swap width and height once applied
+  const rotated = !!orientation && orientation > 1;
+  const [outWidth, outHeight] = orientation && orientation >= 5 ? [height, width] : [width, height];
+
+  if (sniffed === 'image/heic') {
+    const jpeg = await heicToJpeg(buffer);
+    return { ...jpeg, mimeType: 'image/jpeg', extension: 'jpg' };
+  }
+
+  // GIFs carry no EXIF, and re-encoding would drop animation frames
+  if (!rotated || sniffed === 'image/gif') {
+    return { buffer, mimeType: sniffed, extension: EXTENSIONS[sniffed], width, height };
+  }
+
+  const upright = await sharp(buffer).rotate().toBuffer();
+  return { buffer: upright, mimeType: sniffed, extension: EXTENSIONS[sniffed], width: outWidth, height: outHeight };
+}
@@ -0,0 +1,38 @@
+import sharp from 'sharp';
+
+/**
+ * Resized copies stored next to each uploaded original. Sizes are the
+ * longest edge in pixels; images are never upscaled.
+ */
+export const IMAGE_VARIANTS = {
+  thumbnail: { size: 256, quality: 70 },
+  medium: { size: 1280, quality: 80 },
+} as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+
+/**
+ * Storage key for a variant of an original, e.g.
+ * scans/<userId>/123-leaf.png -> scans/<userId>/123-leaf.thumbnail.jpg
+ */
+export function variantKey(originalKey: string, variant: ImageVariant): string {
+  const base = originalKey.replace(/\.[^./]+$/, '');
+  return `${base}.${variant}.jpg`;
+}
+
+/**
+ * Render every variant as a JPEG, applying EXIF orientation first
+ */
+export async function generateImageVariants(image: Buffer): Promise<Record<ImageVariant, Buffer>> {
+  const render = (variant: ImageVariant) => {
+    const { size, quality } = IMAGE_VARIANTS[variant];
+    return sharp(image)
+      .rotate()
+      .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality, mozjpeg: true })
+      .toBuffer();
+  };
+
+  const [thumbnail, medium] = await Promise.all([render('thumbnail'), render('medium')]);
+  return { thumbnail, medium };
+}
@@ -0,0 +1,99 @@
+import type { App } from '../index.js';
+
+// Signed URLs are assumed valid for this long after signing
+const SIGNED_URL_LIFETIME_MS = 60 * 60 * 1000;
+// Re-sign a cached URL once it is this close to expiring, so clients never
+// receive one that lapses before the image has loaded
+const REFRESH_MARGIN_MS = 10 * 60 * 1000;
+const MAX_CACHED_URLS = 5000;
+// Parallel signing requests per batch
+const SIGN_CONCURRENCY = 8;
+
+interface CachedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+export interface SignedUrlCache {
+  /** Signed URL for a single storage key */
+  get(key: string): Promise<string>;
+  /** Signed URLs for many storage keys, deduplicated and signed in parallel */
+  getMany(keys: string[]): Promise<Map<string, string>>;
+  /** Drop a key, e.g. after its object was deleted */
+  invalidate(key: string): void;
+}
+
+/**
+ * In-memory cache of signed storage URLs. The database only stores the
+ * storage key; every response signs (or reuses) a URL at read time.
+ */
+export function createSignedUrlCache(storage: App['storage']): SignedUrlCache {
+  const cache = new Map<string, CachedUrl>();
+  const inFlight = new Map<string, Promise<string>>();
+
+  const lookup = (key: string): string | undefined => {
+    const cached = cache.get(key);
+    if (!cached) return undefined;
+    if (cached.expiresAt - REFRESH_MARGIN_MS <= Date.now()) {
+      cache.delete(key);
+      return undefined;
+    }
+    return cached.url;
+  };
+
+  const remember = (key: string, url: string, signedAt: number) => {
+    // Maps iterate in insertion order, so the first entry is the oldest
+    if (cache.size >= MAX_CACHED_URLS) {
+      const oldest = cache.keys().next().value;
+      if (oldest !== undefined) cache.delete(oldest);
+    }
+    cache.set(key, { url, expiresAt: signedAt + SIGNED_URL_LIFETIME_MS });
+  };
+
+  const sign = (key: string): Promise<string> => {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const signedAt = Date.now();
+    const request = storage
+      .getSignedUrl(key)
+      .then(({ url }) => {
+        remember(key, url, signedAt);
+        return url;
+      })
+      .finally(() => inFlight.delete(key));
+
+    inFlight.set(key, request);
+    return request;
+  };
+
+  const get = async (key: string): Promise<string> => lookup(key) ?? sign(key);
+
+  const getMany = async (keys: string[]): Promise<Map<string, string>> => {
+    const urls = new Map<string, string>();
+    const missing: string[] = [];
+
+    for (const key of new Set(keys)) {
+      const url = lookup(key);
+      if (url) {
+        urls.set(key, url);
+      } else {
+        missing.push(key);
+      }
+    }
+
+    for (let i = 0; i < missing.length; i += SIGN_CONCURRENCY) {
+      const batch = missing.slice(i, i + SIGN_CONCURRENCY);
+      const signed = await Promise.all(batch.map(sign));
+      batch.forEach((key, index) => urls.set(key, signed[index]));
+    }
+
+    return urls;
+  };
+
+  const invalidate = (key: string) => {
+    cache.delete(key);
+  };
+
+  return { get, getMany, invalidate };
+}
@@ -0,0 +1,123 @@
+import Fastify, { type FastifyReply, type FastifyRequest } from 'fastify';
+import multipart from '@fastify/multipart';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import { randomUUID } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import type { App } from '../index.js';
+import * as appSchema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import { createAnalysisWorker, type AnalysisWorker } from '../analysis/worker.js';
+import { createStubProvider } from '../identification/stub-provider.js';
+import { registerApiRoutes } from '../routes/api.js';
+import { syncSpeciesCatalog } from '../species/catalog.js';
+import { SAFETY_ROUTES, type SafetyAssessment, type SafetyCitations } from '../safety/assessment.js';
+
+const MIGRATIONS_FOLDER = fileURLToPath(new URL('../../drizzle', import.meta.url));
+
+export interface TestApp {
+  app: App;
+  worker: AnalysisWorker;
+  // Objects written to the in-memory storage, by key
+  stored: Map<string, Buffer>;
+  // Bearer token for a user that exists in the database
+  authorization(userId: string): string;
+  createUser(userId: string): Promise<void>;
+  // Save an analysed scan and its photo directly, as if the worker had; `values` replace the defaults
+  insertScan(userId: string, values?: Partial<typeof appSchema.scans.$inferInsert>): Promise<string>;
+  close(): Promise<void>;
+}
+
+/**
+ * The API as the server registers it, on an in-memory Postgres with every
+ * migration applied, in-memory storage whose signed URLs are data: URLs, and
+ * the stub identification provider. Stands in for the framework's app the
+ * way the OpenAPI document builder does, with what the routes actually use.
+ * A request is authenticated as the user id in its bearer token.
+ */
+export async function createTestApp(): Promise<TestApp> {
+  const db = drizzle(new PGlite(), { schema: { ...appSchema, ...authSchema } });
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+
+  const fastify = Fastify({ logger: process.env.TEST_LOG ? { level: 'warn' } : false });
+  await fastify.register(multipart);
+
+  const stored = new Map<string, Buffer>();
+  const storage = {
+    async upload(key: string, buffer: Buffer) {
+      stored.set(key, buffer);
+      return key;
+    },
+    async getSignedUrl(key: string) {
+      const object = stored.get(key);
+      if (!object) throw new Error(`No stored object ${key}`);
+      return { url: `data:application/octet-stream;base64,${object.toString('base64')}` };
+    },
+    async delete(key: string) {
+      stored.delete(key);
+    },
+  };
+
+  const requireAuth = () => async (request: FastifyRequest, reply: FastifyReply) => {
+    const userId = request.headers.authorization?.replace(/^Bearer /, '');
+    if (!userId) {
+      await reply.status(401).send({ error: 'Unauthorized' });
+      return null;
+    }
+    return { user: { id: userId } };
+  };
+
+  const app = { fastify, db, storage, requireAuth, logger: fastify.log } as unknown as App;
+  const worker = createAnalysisWorker(app, createStubProvider(), 1);
+  registerApiRoutes(app, worker);
+  await fastify.ready();
+  await syncSpeciesCatalog(app);
+  worker.start();
+
+  return {
+    app,
+    worker,
+    stored,
+    authorization: (userId) => `Bearer ${userId}`,
+    async createUser(userId) {
+      await db.insert(authSchema.user).values({ id: userId, name: userId, email: `${userId}@example.com` });
+    },
+    async insertScan(userId, values = {}) {
+      const imageKey = `scans/${userId}/${randomUUID()}.jpg`;
+      stored.set(imageKey, Buffer.from('photo'));
+      const safety = {} as SafetyAssessment;
+      const safetyCitations = { warnings: [] } as SafetyCitations;
+      for (const route of SAFETY_ROUTES) {
+        safety[route] = { severity: 'safe', conditions: [], notes: '' };
+        safetyCitations[route] = [];
+      }
+      const analysis = {
+        species: 'Boletus edulis',
+        commonName: 'Porcini',
+        safety,
+        confidence: 'high' as const,
+        warnings: '',
+        description: '',
+        candidates: [],
+      };
+      const [scan] = await db.insert(appSchema.scans)
+        .values({
+          userId,
+          imageKey,
+          status: 'complete',
+          ...analysis,
+          safetyCitations,
+          edibility: 'safe',
+          originalAnalysis: analysis,
+          ...values,
+        })
+        .returning({ id: appSchema.scans.id });
+      return scan.id;
+    },
+    async close() {
+      await worker.stop();
+      await fastify.close();
+    },
+  };
+}
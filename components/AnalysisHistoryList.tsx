@@ -0,0 +1,95 @@
+import React from "react";
+import { View, Text, StyleSheet, useColorScheme } from "react-native";
+import { colors } from "@/styles/commonStyles";
+import { ScanAnalysis } from "@/utils/apiClient";
+
+interface AnalysisHistoryListProps {
+  // Newest first, as the server returns them
+  analyses: ScanAnalysis[];
+}
+
+/**
+ * Every analysis a scan has had, so a re-analysis can be compared with the
+ * answers before it. Renders nothing until there is more than one.
+ */
+export function AnalysisHistoryList({ analyses }: AnalysisHistoryListProps) {
+  const colorScheme = useColorScheme();
+  const theme = colors[colorScheme ?? 'light'];
+
+  if (analyses.length <= 1) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.historyContainer, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      <Text style={[styles.historyLabel, { color: theme.textSecondary }]}>Analysis history</Text>
+      {analyses.map((entry, index) => (
+        <View key={entry.version} style={styles.historyItem}>
+          <View style={styles.historyHeader}>
+            <Text style={[styles.historyVersion, { color: theme.textSecondary }]}>
+              Version {entry.version}{index === 0 ? ' (current)' : ''} · {new Date(entry.createdAt).toLocaleDateString()}
+            </Text>
+            <Text style={[styles.historyConfidence, { color: theme.primary }]}>
+              {entry.analysis.confidence.toUpperCase()}
+            </Text>
+          </View>
+          <Text style={[styles.historyName, { color: theme.text }]}>{entry.analysis.commonName}</Text>
+          <Text style={[styles.historySpecies, { color: theme.textSecondary }]}>{entry.analysis.species}</Text>
+          {entry.correction && (
+            <Text style={[styles.historyHint, { color: theme.text }]}>
+              You corrected it to {entry.correction.commonName} ({entry.correction.species})
+            </Text>
+          )}
+          {!!entry.hint && (
+            <Text style={[styles.historyHint, { color: theme.text }]}>Your hint: “{entry.hint}”</Text>
+          )}
+          <Text style={[styles.historyModel, { color: theme.textSecondary }]}>{entry.model}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  historyContainer: {
+    marginTop: 16,
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 16,
+  },
+  historyLabel: {
+    fontSize: 14,
+  },
+  historyItem: {
+    gap: 2,
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  historyVersion: {
+    fontSize: 12,
+  },
+  historyConfidence: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  historyName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  historySpecies: {
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+  historyHint: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  historyModel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,89 @@
+import React from "react";
+import { View, Text, StyleSheet, useColorScheme } from "react-native";
+import { colors } from "@/styles/commonStyles";
+
+export interface ScanCandidate {
+  species: string;
+  commonName: string;
+  confidence: string;
+  distinguishingFeatures: string;
+}
+
+interface CandidateListProps {
+  candidates: ScanCandidate[];
+}
+
+/**
+ * "Could also be…" entries for the ranked candidates after the main result.
+ * Renders nothing when there are no alternatives.
+ */
+export function CandidateList({ candidates }: CandidateListProps) {
+  const colorScheme = useColorScheme();
+  const theme = colors[colorScheme ?? 'light'];
+
+  // The first candidate is the main result
+  if (candidates.length <= 1) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.candidatesContainer, { borderColor: theme.border }]}>
+      <Text style={[styles.candidatesLabel, { color: theme.textSecondary }]}>Could also be…</Text>
+      {candidates.slice(1).map((candidate, index) => (
+        <View key={`${candidate.species}-${index}`} style={styles.candidateItem}>
+          <View style={styles.candidateHeader}>
+            <Text style={[styles.candidateName, { color: theme.text }]}>
+              {candidate.commonName}
+            </Text>
+            <Text style={[styles.candidateConfidence, { color: theme.primary }]}>
+              {candidate.confidence.toUpperCase()}
+            </Text>
+          </View>
+          <Text style={[styles.candidateSpecies, { color: theme.textSecondary }]}>
+            {candidate.species}
+          </Text>
+          <Text style={[styles.candidateFeatures, { color: theme.text }]}>
+            {candidate.distinguishingFeatures}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  candidatesContainer: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    gap: 12,
+  },
+  candidatesLabel: {
+    fontSize: 14,
+  },
+  candidateItem: {
+    gap: 2,
+  },
+  candidateHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  candidateName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  candidateConfidence: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  candidateSpecies: {
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+  candidateFeatures: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 4,
+  },
+});
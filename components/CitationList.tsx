@@ -0,0 +1,80 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, Linking, useColorScheme } from "react-native";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { SafetyCitation, citationLabel } from "@/utils/safety";
+
+interface CitationListProps {
+  citations: SafetyCitation[];
+}
+
+/**
+ * Collapsed "References" toggle for one safety claim; expands to what backs
+ * it. References with a URL open in the browser.
+ */
+export function CitationList({ citations }: CitationListProps) {
+  const colorScheme = useColorScheme();
+  const theme = colors[colorScheme ?? 'light'];
+  const [expanded, setExpanded] = useState(false);
+
+  if (citations.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.citationContainer}>
+      <TouchableOpacity
+        style={styles.citationToggle}
+        onPress={() => setExpanded((current) => !current)}
+        accessibilityRole="button"
+        accessibilityState={{ expanded }}
+      >
+        <IconSymbol
+          ios_icon_name={expanded ? 'chevron.down' : 'chevron.right'}
+          android_material_icon_name={expanded ? 'expand-more' : 'chevron-right'}
+          size={14}
+          color={theme.textSecondary}
+        />
+        <Text style={[styles.citationToggleText, { color: theme.textSecondary }]}>
+          References ({citations.length})
+        </Text>
+      </TouchableOpacity>
+      {expanded && citations.map((citation, index) => {
+        const url = citation.kind === 'reference' ? citation.url : null;
+        return (
+          <Text
+            key={index}
+            style={[
+              styles.citationText,
+              { color: citation.kind === 'model' ? theme.warning : url ? theme.primary : theme.text },
+            ]}
+            onPress={url ? () => Linking.openURL(url) : undefined}
+          >
+            • {citationLabel(citation)}
+          </Text>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  citationContainer: {
+    gap: 2,
+  },
+  citationToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 2,
+  },
+  citationToggleText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  citationText: {
+    fontSize: 12,
+    lineHeight: 17,
+    marginLeft: 18,
+  },
+});
@@ -0,0 +1,91 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity, useColorScheme } from "react-native";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { LookalikeWarning } from "@/utils/safety";
+
+interface LookalikeWarningCardProps {
+  warnings: LookalikeWarning[];
+  acknowledged: boolean;
+  onAcknowledge: () => void;
+}
+
+/**
+ * Mandatory warning for edible species with toxic look-alikes.
+ * Shows an acknowledge button until the user has confirmed reading it.
+ */
+export function LookalikeWarningCard({ warnings, acknowledged, onAcknowledge }: LookalikeWarningCardProps) {
+  const colorScheme = useColorScheme();
+  const theme = colors[colorScheme ?? 'light'];
+
+  return (
+    <View style={[styles.lookalikeContainer, { backgroundColor: theme.danger + '15', borderColor: theme.danger }]}>
+      <View style={styles.lookalikeHeader}>
+        <IconSymbol
+          ios_icon_name="exclamationmark.octagon.fill"
+          android_material_icon_name="report"
+          size={22}
+          color={theme.danger}
+        />
+        <Text style={[styles.lookalikeTitle, { color: theme.danger }]}>Dangerous Look-alike</Text>
+      </View>
+      {warnings.map((warning) => (
+        <View key={warning.lookalikeSpecies} style={styles.lookalikeItem}>
+          <Text style={[styles.lookalikeName, { color: theme.text }]}>
+            {warning.edibleCommonName} can be confused with the toxic {warning.lookalikeCommonName} (
+            <Text style={{ fontStyle: 'italic' }}>{warning.lookalikeSpecies}</Text>)
+          </Text>
+          <Text style={[styles.lookalikeTraits, { color: theme.text }]}>{warning.distinguishingTraits}</Text>
+        </View>
+      ))}
+      {!acknowledged && (
+        <TouchableOpacity
+          style={[styles.acknowledgeButton, { backgroundColor: theme.danger }]}
+          onPress={onAcknowledge}
+        >
+          <Text style={styles.acknowledgeButtonText}>I understand the risk</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  lookalikeContainer: {
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 10,
+  },
+  lookalikeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  lookalikeTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  lookalikeItem: {
+    gap: 4,
+  },
+  lookalikeName: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  lookalikeTraits: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  acknowledgeButton: {
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  acknowledgeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,136 @@
+import React from "react";
+import { View, Text, StyleSheet, Image, TouchableOpacity, ActivityIndicator, useColorScheme } from "react-native";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { useScanQueue } from "@/contexts/ScanQueueContext";
+import { PendingScan } from "@/utils/scanQueue";
+
+/**
+ * Captures saved on the device that have not reached the server yet.
+ * Renders nothing when the queue is empty.
+ */
+export function PendingScansList() {
+  const colorScheme = useColorScheme();
+  const theme = colors[colorScheme ?? 'light'];
+  const { pendingScans, isOnline, isSyncing, retryScan, discardScan } = useScanQueue();
+
+  if (pendingScans.length === 0) {
+    return null;
+  }
+
+  const statusText = (pending: PendingScan) => {
+    if (pending.failedReason) {
+      return `Failed: ${pending.failedReason}`;
+    }
+    if (!isOnline) {
+      return "Waiting for connection";
+    }
+    const seconds = Math.round((new Date(pending.nextAttemptAt).getTime() - Date.now()) / 1000);
+    if (isSyncing || seconds <= 0) {
+      return "Uploading…";
+    }
+    return seconds < 60 ? `Retrying in ${seconds}s` : `Retrying in ${Math.round(seconds / 60)} min`;
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      <View style={styles.header}>
+        <IconSymbol
+          ios_icon_name="icloud.and.arrow.up"
+          android_material_icon_name="cloud-upload"
+          size={20}
+          color={theme.primary}
+        />
+        <Text style={[styles.title, { color: theme.text }]}>
+          Pending Scans ({pendingScans.length})
+        </Text>
+        {isSyncing && <ActivityIndicator size="small" color={theme.primary} />}
+      </View>
+
+      {pendingScans.map((pending) => (
+        <View key={pending.id} style={styles.item}>
+          <Image source={{ uri: pending.imageUri }} style={styles.image} />
+          <View style={styles.info}>
+            <Text style={[styles.date, { color: theme.text }]}>
+              {new Date(pending.createdAt).toLocaleString()}
+            </Text>
+            <Text
+              style={[styles.status, { color: pending.failedReason ? theme.danger : theme.textSecondary }]}
+              numberOfLines={2}
+            >
+              {statusText(pending)}
+            </Text>
+          </View>
+          <View style={styles.actions}>
+            {(pending.failedReason || pending.attempts > 0) && (
+              <TouchableOpacity onPress={() => retryScan(pending.id)} style={styles.actionButton}>
+                <IconSymbol
+                  ios_icon_name="arrow.clockwise"
+                  android_material_icon_name="refresh"
+                  size={20}
+                  color={theme.primary}
+                />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => discardScan(pending.id)} style={styles.actionButton}>
+              <IconSymbol
+                ios_icon_name="trash"
+                android_material_icon_name="delete"
+                size={20}
+                color={theme.danger}
+              />
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 20,
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  image: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+  },
+  info: {
+    flex: 1,
+  },
+  date: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  status: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  actionButton: {
+    padding: 6,
+  },
+});
@@ -0,0 +1,155 @@
+import React from "react";
+import { View, Text, StyleSheet, useColorScheme } from "react-native";
+import { IconSymbol } from "@/components/IconSymbol";
+import { CitationList } from "@/components/CitationList";
+import { colors } from "@/styles/commonStyles";
+import {
+  Edibility,
+  PresentationDecision,
+  SafetyAssessment,
+  SafetyCitations,
+  SafetyConflict,
+  SafetySources,
+  SAFETY_ROUTES,
+  SAFETY_SOURCE_LABELS,
+  SEVERITY_LABELS,
+  severityColor,
+  severityIcon,
+} from "@/utils/safety";
+
+interface SafetyAssessmentListProps {
+  // Catalog safety data only covers the routes that have been reviewed
+  safety: Partial<SafetyAssessment>;
+  // Verdict of a scan's look-alike check; catalog safety data has none
+  edibility?: Edibility;
+  // Where a scan's verdicts came from, and where the model disagreed with reviewed data
+  sources?: SafetySources;
+  conflicts?: SafetyConflict[];
+  // What backs each of a scan's verdicts, shown as expandable references
+  citations?: SafetyCitations;
+  // The server's presentation policy for a scan; verdicts it holds back are not shown as given
+  presentation?: PresentationDecision;
+}
+
+/**
+ * One row per exposure route with a severity badge, its conditions and notes.
+ * Ingestion is shown as "Unverified" when the look-alike check downgraded it.
+ * With sources, each row says whether its verdict is reviewed or the AI's own.
+ * Verdicts the presentation policy downgraded are shown as "Unverified"; those
+ * it suppressed are replaced by the reason, with "Do not consume" for eating.
+ */
+export function SafetyAssessmentList({
+  safety,
+  edibility,
+  sources,
+  conflicts = [],
+  citations,
+  presentation,
+}: SafetyAssessmentListProps) {
+  const colorScheme = useColorScheme();
+  const theme = colors[colorScheme ?? 'light'];
+
+  return (
+    <View style={styles.safetyContainer}>
+      {SAFETY_ROUTES.map(({ key, label }) => {
+        const assessment = safety[key];
+        if (!assessment) return null;
+        const conflict = conflicts.find((candidate) => candidate.route === key);
+        const action = presentation?.routes[key] ?? 'show';
+        const reason = presentation?.reasons.find((candidate) => candidate.route === key);
+        const suppressed = action === 'suppress';
+        const unverified = action === 'downgrade' || (key === 'ingestion' && edibility === 'unverified');
+        const shownSeverity = action === 'show' ? assessment.severity : 'unknown';
+        const badgeColor = suppressed
+          ? theme.danger
+          : unverified ? theme.warning : severityColor(shownSeverity, theme);
+        const badgeLabel = suppressed
+          ? key === 'ingestion' ? 'Do not consume' : 'Uncertain'
+          : unverified ? 'Unverified' : SEVERITY_LABELS[shownSeverity];
+        const icon = severityIcon(shownSeverity);
+        return (
+          <View key={key} style={[styles.safetyRow, { borderColor: theme.border }]}>
+            <View style={styles.safetyRowHeader}>
+              <Text style={[styles.safetyRouteLabel, { color: theme.text }]}>{label}</Text>
+              <View style={[styles.safetyBadge, { backgroundColor: badgeColor }]}>
+                <IconSymbol
+                  ios_icon_name={icon.ios}
+                  android_material_icon_name={icon.android}
+                  size={16}
+                  color="#FFFFFF"
+                />
+                <Text style={styles.safetyText}>{badgeLabel}</Text>
+              </View>
+            </View>
+            {!!reason && (
+              <Text style={[styles.safetyNotes, { color: theme.text }]}>{reason.message}</Text>
+            )}
+            {!suppressed && assessment.conditions.map((condition) => (
+              <Text key={condition} style={[styles.safetyCondition, { color: theme.text }]}>
+                • {condition}
+              </Text>
+            ))}
+            {!suppressed && !!assessment.notes && (
+              <Text style={[styles.safetyNotes, { color: theme.textSecondary }]}>{assessment.notes}</Text>
+            )}
+            {!suppressed && sources && (
+              <Text style={[styles.safetySource, { color: theme.textSecondary }]}>
+                {SAFETY_SOURCE_LABELS[sources[key]]}
+                {conflict && ` · The AI said: ${SEVERITY_LABELS[conflict.modelSeverity]}`}
+              </Text>
+            )}
+            {!suppressed && citations && <CitationList citations={citations[key]} />}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  safetyContainer: {
+    gap: 8,
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  safetyRow: {
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    gap: 4,
+  },
+  safetyRowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  safetyRouteLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  safetyBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    gap: 6,
+  },
+  safetyText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  safetyCondition: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  safetyNotes: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  safetySource: {
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,68 @@
+import React from "react";
+import { View, Text, StyleSheet, useColorScheme } from "react-native";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { PresentationDecision } from "@/utils/safety";
+
+interface UncertainIdentificationBannerProps {
+  presentation: PresentationDecision;
+}
+
+/**
+ * "Do not consume" notice for scans whose identification is too uncertain
+ * for the server's presentation policy to show an edibility verdict.
+ * Renders nothing when the policy allows it.
+ */
+export function UncertainIdentificationBanner({ presentation }: UncertainIdentificationBannerProps) {
+  const colorScheme = useColorScheme();
+  const theme = colors[colorScheme ?? 'light'];
+
+  if (!presentation.doNotConsume) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.bannerContainer, { backgroundColor: theme.danger + '15', borderColor: theme.danger }]}>
+      <View style={styles.bannerHeader}>
+        <IconSymbol
+          ios_icon_name="hand.raised.fill"
+          android_material_icon_name="do-not-disturb-on"
+          size={22}
+          color={theme.danger}
+        />
+        <Text style={[styles.bannerTitle, { color: theme.danger }]}>
+          Do not consume — identification uncertain
+        </Text>
+      </View>
+      {presentation.reasons.map((reason) => (
+        <Text key={reason.route} style={[styles.bannerReason, { color: theme.text }]}>
+          • {reason.message}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bannerContainer: {
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 6,
+  },
+  bannerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  bannerTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  bannerReason: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
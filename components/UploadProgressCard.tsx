@@ -0,0 +1,126 @@
+import React from "react";
+import { View, Text, StyleSheet, ActivityIndicator, useColorScheme } from "react-native";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { PartialAnalysis, UploadProgressEvent } from "@/utils/apiClient";
+
+export type UploadStage = UploadProgressEvent["stage"];
+
+interface UploadProgressCardProps {
+  // Last stage the server reported; null while the photo is still uploading
+  stage: UploadStage | null;
+  analysis: PartialAnalysis;
+}
+
+const STEPS: { label: string; doneAt: UploadStage[] }[] = [
+  { label: 'Uploading photo', doneAt: ['received', 'stored', 'saved', 'analysing', 'partial', 'complete', 'retrying'] },
+  { label: 'Storing photo', doneAt: ['stored', 'saved', 'analysing', 'partial', 'complete', 'retrying'] },
+  { label: 'Identifying species', doneAt: ['complete'] },
+];
+/**
+ * Progress of a streamed upload: the server's stages as a checklist, and the
+ * identification's text fields as the model writes them. Replaced by the
+ * full result once the scan is analysed.
+ */
+export function UploadProgressCard({ stage, analysis }: UploadProgressCardProps) {
+  const colorScheme = useColorScheme();
+  const theme = colors[colorScheme ?? 'light'];
+
+  const activeStep = STEPS.findIndex((step) => !stage || !step.doneAt.includes(stage));
+
+  return (
+    <View style={[styles.progressContainer, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      {STEPS.map((step, index) => {
+        const done = activeStep === -1 || index < activeStep;
+        return (
+          <View key={step.label} style={styles.stepRow}>
+            {index === activeStep ? (
+              <ActivityIndicator size="small" color={theme.primary} />
+            ) : (
+              <IconSymbol
+                ios_icon_name={done ? 'checkmark.circle.fill' : 'circle'}
+                android_material_icon_name={done ? 'check-circle' : 'radio-button-unchecked'}
+                size={20}
+                color={done ? theme.primary : theme.textSecondary}
+              />
+            )}
+            <Text style={[styles.stepLabel, { color: done || index === activeStep ? theme.text : theme.textSecondary }]}>
+              {step.label}
+            </Text>
+          </View>
+        );
+      })}
+
+      {stage === 'retrying' && (
+        <Text style={[styles.retryText, { color: theme.textSecondary }]}>
+          The analysis hit a problem and will be retried shortly…
+        </Text>
+      )}
+
+      {(analysis.commonName || analysis.species) && (
+        <View style={[styles.partialContainer, { borderColor: theme.border }]}>
+          {analysis.commonName && (
+            <Text style={[styles.partialName, { color: theme.text }]}>{analysis.commonName}</Text>
+          )}
+          {analysis.species && (
+            <Text style={[styles.partialSpecies, { color: theme.textSecondary }]}>{analysis.species}</Text>
+          )}
+          {analysis.confidence && (
+            <Text style={[styles.partialConfidence, { color: theme.primary }]}>
+              Confidence: {analysis.confidence.toUpperCase()}
+            </Text>
+          )}
+          {analysis.description && (
+            <Text style={[styles.partialDescription, { color: theme.text }]}>{analysis.description}</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  progressContainer: {
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    marginBottom: 24,
+    gap: 12,
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepLabel: {
+    fontSize: 16,
+  },
+  retryText: {
+    fontSize: 14,
+    fontStyle: 'italic',
+  },
+  partialContainer: {
+    marginTop: 4,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    gap: 4,
+  },
+  partialName: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  partialSpecies: {
+    fontSize: 14,
+    fontStyle: 'italic',
+  },
+  partialConfidence: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  partialDescription: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,169 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { useNetworkState } from "expo-network";
+import { useAuth } from "@/contexts/AuthContext";
+import { ApiError } from "@/utils/api";
+import {
+  PendingScan,
+  ScanCapture,
+  enqueueScan,
+  isRetryableUploadError,
+  loadPendingScans,
+  nextRetryDelay,
+  removePendingScan,
+  updatePendingScan,
+  uploadScan,
+} from "@/utils/scanQueue";
+
+type ScanQueueContextType = {
+  pendingScans: PendingScan[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  // Changes whenever a queued scan reaches the server, so lists can refresh
+  lastSyncedAt: number | null;
+  queueScan: (capture: ScanCapture, clientScanId?: string) => Promise<void>;
+  retryScan: (id: string) => void;
+  discardScan: (id: string) => void;
+};
+
+const ScanQueueContext = createContext<ScanQueueContextType | null>(null);
+
+export function ScanQueueProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const networkState = useNetworkState();
+  const isOnline = !!networkState.isConnected && networkState.isInternetReachable !== false;
+
+  const [pendingScans, setPendingScans] = useState<PendingScan[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  // The queue is read and written from async sync loops, so keep the latest copy in a ref
+  const queueRef = useRef<PendingScan[]>([]);
+  const syncingRef = useRef(false);
+
+  const commit = useCallback((queue: PendingScan[]) => {
+    queueRef.current = queue;
+    setPendingScans(queue);
+  }, []);
+
+  useEffect(() => {
+    loadPendingScans().then((queue) => {
+      console.log("[ScanQueue] Loaded pending scans:", queue.length);
+      commit(queue);
+    });
+  }, [commit]);
+
+  const syncPendingScans = useCallback(async () => {
+    if (syncingRef.current || !user || !isOnline) {
+      return;
+    }
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    try {
+      for (const pending of queueRef.current) {
+        if (pending.failedReason || new Date(pending.nextAttemptAt).getTime() > Date.now()) {
+          continue;
+        }
+
+        try {
+          await uploadScan(pending, pending.id);
+          console.log("[ScanQueue] Synced scan:", pending.id);
+          commit(removePendingScan(queueRef.current, pending.id));
+          setLastSyncedAt(Date.now());
+        } catch (error) {
+          const attempts = pending.attempts + 1;
+          if (error instanceof ApiError && !isRetryableUploadError(error)) {
+            console.error("[ScanQueue] Server rejected scan:", pending.id, error.message);
+            commit(updatePendingScan(queueRef.current, { ...pending, attempts, failedReason: error.message }));
+            continue;
+          }
+
+          const delay = nextRetryDelay(attempts);
+          console.log("[ScanQueue] Upload failed, retrying in", Math.round(delay / 1000), "s:", pending.id);
+          commit(
+            updatePendingScan(queueRef.current, {
+              ...pending,
+              attempts,
+              nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+            })
+          );
+
+          // Without a connection the rest of the queue would fail the same way
+          if (error instanceof ApiError && error.isNetworkError) {
+            break;
+          }
+        }
+      }
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [user, isOnline, commit]);
+
+  // Wake up when the earliest retry is due, and immediately on reconnecting
+  useEffect(() => {
+    if (!user || !isOnline || isSyncing) {
+      return;
+    }
+
+    const due = pendingScans
+      .filter((pending) => !pending.failedReason)
+      .map((pending) => new Date(pending.nextAttemptAt).getTime());
+    if (due.length === 0) {
+      return;
+    }
+
+    const delay = Math.max(0, Math.min(...due) - Date.now());
+    const timer = setTimeout(syncPendingScans, delay);
+    return () => clearTimeout(timer);
+  }, [pendingScans, user, isOnline, isSyncing, syncPendingScans]);
+
+  const queueScan = useCallback(
+    async (capture: ScanCapture, clientScanId?: string) => {
+      commit(await enqueueScan(queueRef.current, capture, clientScanId));
+    },
+    [commit]
+  );
+
+  const retryScan = useCallback(
+    (id: string) => {
+      const pending = queueRef.current.find((item) => item.id === id);
+      if (!pending) {
+        return;
+      }
+      console.log("[ScanQueue] Manual retry:", id);
+      commit(
+        updatePendingScan(queueRef.current, {
+          ...pending,
+          failedReason: undefined,
+          nextAttemptAt: new Date().toISOString(),
+        })
+      );
+    },
+    [commit]
+  );
+
+  const discardScan = useCallback(
+    (id: string) => {
+      console.log("[ScanQueue] Discarding scan:", id);
+      commit(removePendingScan(queueRef.current, id));
+    },
+    [commit]
+  );
+
+  return (
+    <ScanQueueContext.Provider
+      value={{ pendingScans, isOnline, isSyncing, lastSyncedAt, queueScan, retryScan, discardScan }}
+    >
+      {children}
+    </ScanQueueContext.Provider>
+  );
+}
+
+export const useScanQueue = () => {
+  const context = useContext(ScanQueueContext);
+  if (!context) {
+    throw new Error("useScanQueue must be used within a ScanQueueProvider");
+  }
+  return context;
+};
@@ -7,6 +7,14 @@ const config = getDefaultConfig(__dirname);
 
 config.resolver.unstable_enablePackageExports = true;
 
+// The app imports the API contracts from backend/src, whose modules use
+// Node-style ".js" specifiers for their TypeScript siblings
+const backendSourceDir = path.join(__dirname, 'backend', 'src');
+config.resolver.resolveRequest = (context, moduleName, platform) => {
+  const fromBackend = context.originModulePath.startsWith(backendSourceDir) && moduleName.startsWith('.');
+  return context.resolveRequest(context, fromBackend ? moduleName.replace(/\.js$/, '.ts') : moduleName, platform);
+};
+
 // Use turborepo to restore the cache when possible
 config.cacheStores = [
     new FileStore({ root: path.join(__dirname, 'node_modules', '.cache', 'metro') }),
@@ -9,6 +9,26 @@ import { BEARER_TOKEN_KEY } from "@/lib/auth";
  */
 export const BACKEND_URL = Constants.expoConfig?.extra?.backendUrl || "";
 
+/**
+ * Failed API request. status is the HTTP status, or 0 when the server could
+ * not be reached; code and issues are copied from the JSON error body.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string,
+    readonly issues?: unknown[]
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0;
+  }
+}
+
 /**
  * Check if backend is properly configured
  */
@@ -36,13 +56,26 @@ export const getBearerToken = async (): Promise<string | null> => {
   }
 };
 
+/**
+ * ApiError for a failed response, using the JSON error body when there is one
+ */
+const errorFromResponse = (status: number, text: string): ApiError => {
+  let body: { error?: string; code?: string; issues?: unknown[] } = {};
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not a JSON error body; keep the status message
+  }
+  return new ApiError(body.error || `API error: ${status}`, status, body.code, body.issues);
+};
+
 /**
  * Generic API call helper with error handling
  *
  * @param endpoint - API endpoint path (e.g., '/users', '/auth/login')
  * @param options - Fetch options (method, headers, body, etc.)
  * @returns Parsed JSON response
- * @throws Error if backend is not configured or request fails
+ * @throws Error if backend is not configured, ApiError if the request fails
  */
 export const apiCall = async <T = any>(
   endpoint: string,
@@ -55,28 +88,30 @@ export const apiCall = async <T = any>(
   const url = `${BACKEND_URL}${endpoint}`;
   console.log("[API] Calling:", url, options?.method || "GET");
 
+  let response: Response;
   try {
-    const response = await fetch(url, {
+    response = await fetch(url, {
       ...options,
       headers: {
-        "Content-Type": "application/json",
+        // FormData bodies need fetch to set the multipart boundary itself
+        ...(!(options?.body instanceof FormData) && { "Content-Type": "application/json" }),
         ...options?.headers,
       },
     });
-
-    if (!response.ok) {
-      const text = await response.text();
-      console.error("[API] Error response:", response.status, text);
-      throw new Error(`API error: ${response.status} - ${text}`);
-    }
-
-    const data = await response.json();
-    console.log("[API] Success:", data);
-    return data;
   } catch (error) {
     console.error("[API] Request failed:", error);
-    throw error;
+    throw new ApiError("No connection to the server", 0, "network_error");
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    console.error("[API] Error response:", response.status, text);
+    throw errorFromResponse(response.status, text);
   }
+
+  const data = await response.json();
+  console.log("[API] Success:", data);
+  return data;
 };
 
 /**
@@ -143,7 +178,7 @@ export const apiDelete = async <T = any>(endpoint: string, data: any = {}): Prom
  * @param endpoint - API endpoint path
  * @param options - Fetch options (method, headers, body, etc.)
  * @returns Parsed JSON response
- * @throws Error if token not found or request fails
+ * @throws ApiError if token not found or request fails
  */
 export const authenticatedApiCall = async <T = any>(
   endpoint: string,
@@ -152,7 +187,7 @@ export const authenticatedApiCall = async <T = any>(
   const token = await getBearerToken();
 
   if (!token) {
-    throw new Error("Authentication token not found. Please sign in.");
+    throw new ApiError("Authentication token not found. Please sign in.", 401, "unauthorized");
   }
 
   return apiCall<T>(endpoint, {
@@ -164,6 +199,97 @@ export const authenticatedApiCall = async <T = any>(
   });
 };
 
+/**
+ * Authenticated request whose response is newline-delimited JSON. Each line
+ * is passed to onLine as soon as it arrives; React Native's fetch only
+ * resolves once the whole body is in, so this reads the growing response of
+ * an XMLHttpRequest instead.
+ *
+ * @throws ApiError if token not found or the request fails, or whatever onLine throws
+ */
+export const authenticatedStreamCall = async (
+  endpoint: string,
+  options: { method: string; body?: FormData | string; headers?: Record<string, string> },
+  onLine: (line: string) => void
+): Promise<void> => {
+  if (!isBackendConfigured()) {
+    throw new Error("Backend URL not configured. Please rebuild the app.");
+  }
+
+  const token = await getBearerToken();
+  if (!token) {
+    throw new ApiError("Authentication token not found. Please sign in.", 401, "unauthorized");
+  }
+
+  const url = `${BACKEND_URL}${endpoint}`;
+  console.log("[API] Streaming:", url, options.method);
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let consumed = 0;
+
+    // Hand over every complete line received since the last call
+    const readLines = () => {
+      const text = xhr.responseText;
+      let newline = text.indexOf("\n", consumed);
+      while (newline !== -1) {
+        const line = text.slice(consumed, newline).trim();
+        consumed = newline + 1;
+        if (line) {
+          onLine(line);
+        }
+        newline = text.indexOf("\n", consumed);
+      }
+    };
+
+    const fail = (error: unknown) => {
+      xhr.abort();
+      reject(error);
+    };
+
+    xhr.open(options.method, url);
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      xhr.setRequestHeader(name, value);
+    }
+    xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+
+    xhr.onprogress = () => {
+      if (xhr.status !== 200) {
+        return;
+      }
+      try {
+        readLines();
+      } catch (error) {
+        fail(error);
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        console.error("[API] Error response:", xhr.status, xhr.responseText);
+        reject(errorFromResponse(xhr.status, xhr.responseText));
+        return;
+      }
+      try {
+        // The last line may not end in a newline
+        readLines();
+        const rest = xhr.responseText.slice(consumed).trim();
+        if (rest) {
+          onLine(rest);
+        }
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    };
+    xhr.onerror = () => {
+      console.error("[API] Stream failed:", url);
+      reject(new ApiError("No connection to the server", 0, "network_error"));
+    };
+
+    xhr.send(options.body ?? null);
+  });
+};
+
 /**
  * Authenticated GET request
  */
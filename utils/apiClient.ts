@@ -0,0 +1,222 @@
+import type { Analysis, Candidate } from "@/backend/src/identification/types";
+import type { SafetyAssessment, SafetyCitations, SafetyConflict, SafetySources } from "@/backend/src/safety/assessment";
+import type { LocationPrecision } from "@/backend/src/location/precision";
+import {
+  acknowledgeLookalikesResponseSchema,
+  deleteScanResponseSchema,
+  mapScansResponseSchema,
+  scanAnalysesResponseSchema,
+  scanDetailResponseSchema,
+  scanListResponseSchema,
+  scanSchema,
+  scanUploadResponseSchema,
+  UPLOAD_PROGRESS_CONTENT_TYPE,
+  uploadProgressEventSchema,
+  type ListScansQuery,
+  type ScanUploadResponse,
+  type UploadProgressEvent,
+} from "@/backend/src/contracts/scans";
+import { userSettingsSchema, type UpdateSettingsBody } from "@/backend/src/contracts/settings";
+import { speciesSchema } from "@/backend/src/contracts/species";
+import { ApiError, authenticatedApiCall, authenticatedStreamCall } from "@/utils/api";
+import {
+  createApi,
+  type ListScansInBoundingBoxQuery,
+  type ReanalyzeScanBody,
+  type UpdateScanBody,
+} from "@/utils/generated/api";
+
+/**
+ * Typed client for the backend API. Requests go through the client
+ * generated from the backend's OpenAPI document, and their responses are
+ * parsed with the backend's contract schemas, so a screen reading a field the
+ * server does not send fails to compile, and a response that drifted from the
+ * contract fails loudly instead of rendering "Unknown".
+ */
+
+export type {
+  Edibility,
+  LookalikeWarning,
+  MapScan,
+  MapScansResponse,
+  PresentationDecision,
+  ReanalysisStatus,
+  Scan,
+  ScanAnalysis,
+  ScanDetail,
+  ScanDetailResponse,
+  ScanListResponse,
+  ScanStatus,
+  ScanUploadResponse,
+  UnanalysedScan,
+  UploadProgressEvent,
+} from "@/backend/src/contracts/scans";
+export type { UpdateSettingsBody, UserSettings } from "@/backend/src/contracts/settings";
+export type { Species, TaxonomicRanks } from "@/backend/src/contracts/species";
+export type { PartialAnalysis } from "@/backend/src/identification/types";
+export type {
+  Analysis,
+  Candidate,
+  LocationPrecision,
+  SafetyAssessment,
+  SafetyCitations,
+  SafetyConflict,
+  SafetySources,
+};
+
+export type ScanConfidence = Analysis["confidence"];
+
+export interface ScanUpload {
+  imageUri: string;
+  mimeType: string;
+  latitude?: number;
+  longitude?: number;
+  clientScanId?: string;
+  idempotencyKey?: string;
+}
+
+export type ScanListParams = Partial<ListScansQuery>;
+
+export type BoundingBox = ListScansInBoundingBoxQuery;
+
+export type { ReanalyzeScanBody, UpdateScanBody };
+
+// Structural so it accepts schemas built by the backend's own copy of zod
+interface ResponseSchema<T> {
+  safeParse(data: unknown): { success: true; data: T } | { success: false; error: { issues: unknown[] } };
+}
+
+/**
+ * Check response data against its contract
+ */
+const checkContract = <T>(schema: ResponseSchema<T>, data: unknown): T => {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    console.error("[API] Response does not match the contract:", parsed.error.issues);
+    throw new ApiError("Unexpected response from the server", 200, "invalid_response", parsed.error.issues);
+  }
+  return parsed.data;
+};
+
+const parseResponse = async <T>(schema: ResponseSchema<T>, request: Promise<unknown>): Promise<T> =>
+  checkContract(schema, await request);
+
+// apiCall declares every body as JSON, and the server rejects an empty JSON body
+const generatedApi = createApi((endpoint, init) =>
+  authenticatedApiCall(endpoint, init.method === "GET" || init.body ? init : { ...init, body: "{}" })
+);
+
+const booleanParam = (value?: boolean) => (value === undefined ? undefined : value ? "true" : "false");
+
+/**
+ * Multipart body of a photo upload
+ */
+const uploadForm = (upload: ScanUpload): FormData => {
+  const formData = new FormData();
+
+  // Text fields must precede the file so the server can read them
+  if (upload.clientScanId) {
+    formData.append("clientScanId", upload.clientScanId);
+  }
+  if (upload.latitude !== undefined && upload.longitude !== undefined) {
+    formData.append("latitude", String(upload.latitude));
+    formData.append("longitude", String(upload.longitude));
+  }
+  const extension = upload.imageUri.split(".").pop() || "jpg";
+  formData.append("image", {
+    uri: upload.imageUri,
+    type: upload.mimeType,
+    name: `scan.${extension}`,
+  } as any);
+  return formData;
+};
+
+/**
+ * Upload that reports each stage of the server's work as it happens,
+ * including the analysis it follows after saving the scan. Resolves with the
+ * saved scan once the stream ends; the analysis may not have finished then.
+ */
+const uploadScanWithProgress = async (
+  upload: ScanUpload,
+  onProgress: (event: UploadProgressEvent) => void
+): Promise<ScanUploadResponse> => {
+  let result = null as ScanUploadResponse | null;
+
+  await authenticatedStreamCall(
+    "/api/scans/upload",
+    {
+      method: "POST",
+      body: uploadForm(upload),
+      headers: {
+        Accept: UPLOAD_PROGRESS_CONTENT_TYPE,
+        ...(upload.idempotencyKey && { "Idempotency-Key": upload.idempotencyKey }),
+      },
+    },
+    (line) => {
+      const event = checkContract(uploadProgressEventSchema, JSON.parse(line));
+      // The upload failed after the server sent its 200; treat it like a 500
+      if (event.stage === "error") {
+        throw new ApiError(event.error, 500, event.code);
+      }
+      if (event.stage === "saved") {
+        result = event.result;
+      }
+      onProgress(event);
+    }
+  );
+
+  if (!result) {
+    throw new ApiError("The connection closed before the scan was saved", 0, "network_error");
+  }
+  return result;
+};
+
+export const api = {
+  scans: {
+    upload: (upload: ScanUpload) =>
+      parseResponse(
+        scanUploadResponseSchema,
+        generatedApi.uploadScan(uploadForm(upload), { "idempotency-key": upload.idempotencyKey })
+      ),
+
+    uploadWithProgress: uploadScanWithProgress,
+
+    list: ({ safeToEat, safeToTouch, from, to, ...params }: ScanListParams = {}) =>
+      parseResponse(
+        scanListResponseSchema,
+        generatedApi.listScans({
+          ...params,
+          safeToEat: booleanParam(safeToEat),
+          safeToTouch: booleanParam(safeToTouch),
+          from: from?.toISOString(),
+          to: to?.toISOString(),
+        })
+      ),
+
+    inBoundingBox: (box: BoundingBox) => parseResponse(mapScansResponseSchema, generatedApi.listScansInBoundingBox(box)),
+
+    get: (id: string) => parseResponse(scanDetailResponseSchema, generatedApi.getScan({ id })),
+
+    update: (id: string, update: UpdateScanBody) => parseResponse(scanSchema, generatedApi.updateScan({ id }, update)),
+
+    reanalyze: (id: string, body: ReanalyzeScanBody = {}) =>
+      parseResponse(scanDetailResponseSchema, generatedApi.reanalyzeScan({ id }, body)),
+
+    analyses: (id: string) => parseResponse(scanAnalysesResponseSchema, generatedApi.listScanAnalyses({ id })),
+
+    acknowledgeLookalikes: (id: string) =>
+      parseResponse(acknowledgeLookalikesResponseSchema, generatedApi.acknowledgeLookalikes({ id })),
+
+    delete: (id: string) => parseResponse(deleteScanResponseSchema, generatedApi.deleteScan({ id })),
+  },
+
+  species: {
+    get: (id: string) => parseResponse(speciesSchema, generatedApi.getSpecies({ id })),
+  },
+
+  settings: {
+    get: () => parseResponse(userSettingsSchema, generatedApi.getSettings()),
+
+    update: (settings: UpdateSettingsBody) => parseResponse(userSettingsSchema, generatedApi.updateSettings(settings)),
+  },
+};
@@ -0,0 +1,1199 @@
+/**
+ * Generated from the backend's OpenAPI document by `npm run openapi:generate`
+ * in backend/. Do not edit by hand; `npm run openapi:check` fails when this
+ * file is out of date.
+ */
+
+export type ApiTransport = (endpoint: string, init: RequestInit) => Promise<unknown>;
+
+const definedValues = (values: object): Record<string, string> => {
+  const defined: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && value !== null) {
+      defined[key] = String(value);
+    }
+  }
+  return defined;
+};
+
+const queryString = (query: object): string => {
+  const search = new URLSearchParams(definedValues(query)).toString();
+  return search ? `?${search}` : "";
+};
+
+export type UploadScanHeaders = {
+  "idempotency-key"?: string;
+  accept?: string;
+};
+
+export type UploadScanResponse = {
+  imageUrl: string;
+  thumbnailUrl: string;
+  mediumUrl: string;
+  scanId: string;
+  status: "pending" | "analysing" | "complete" | "failed";
+};
+
+export type ListScansQuery = {
+  limit?: number;
+  cursor?: string;
+  confidence?: "high" | "medium" | "low";
+  safeToEat?: "true" | "false";
+  safeToTouch?: "true" | "false";
+  from?: string;
+  to?: string;
+  q?: string;
+};
+
+export type ListScansResponse = {
+  scans: {
+    imageUrl: string;
+    thumbnailUrl: string;
+    mediumUrl: string;
+    id: string;
+    status: "complete";
+    species: string;
+    commonName: string;
+    safety: {
+      ingestion: {
+        severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+        conditions: string[];
+        notes: string;
+      };
+      skinContact: {
+        severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+        conditions: string[];
+        notes: string;
+      };
+      inhalation: {
+        severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+        conditions: string[];
+        notes: string;
+      };
+      pets: {
+        severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+        conditions: string[];
+        notes: string;
+      };
+      children: {
+        severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+        conditions: string[];
+        notes: string;
+      };
+    };
+    safetySources: {
+      ingestion: "curated" | "model";
+      skinContact: "curated" | "model";
+      inhalation: "curated" | "model";
+      pets: "curated" | "model";
+      children: "curated" | "model";
+    };
+    safetyConflicts: {
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      modelSeverity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      curatedSeverity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+    }[];
+    safetyDatasetVersion: number | null;
+    safetyCitations: {
+      ingestion: ({
+        kind: "dataset";
+        species: string;
+        route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+        datasetVersion: number;
+      } | {
+        kind: "reference";
+        referenceId: string;
+        title: string;
+        url: string | null;
+      } | {
+        kind: "lookalike";
+        edibleSpecies: string;
+        lookalikeSpecies: string;
+      } | {
+        kind: "model";
+        provider: string;
+        model: string;
+      })[];
+      skinContact: ({
+        kind: "dataset";
+        species: string;
+        route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+        datasetVersion: number;
+      } | {
+        kind: "reference";
+        referenceId: string;
+        title: string;
+        url: string | null;
+      } | {
+        kind: "lookalike";
+        edibleSpecies: string;
+        lookalikeSpecies: string;
+      } | {
+        kind: "model";
+        provider: string;
+        model: string;
+      })[];
+      inhalation: ({
+        kind: "dataset";
+        species: string;
+        route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+        datasetVersion: number;
+      } | {
+        kind: "reference";
+        referenceId: string;
+        title: string;
+        url: string | null;
+      } | {
+        kind: "lookalike";
+        edibleSpecies: string;
+        lookalikeSpecies: string;
+      } | {
+        kind: "model";
+        provider: string;
+        model: string;
+      })[];
+      pets: ({
+        kind: "dataset";
+        species: string;
+        route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+        datasetVersion: number;
+      } | {
+        kind: "reference";
+        referenceId: string;
+        title: string;
+        url: string | null;
+      } | {
+        kind: "lookalike";
+        edibleSpecies: string;
+        lookalikeSpecies: string;
+      } | {
+        kind: "model";
+        provider: string;
+        model: string;
+      })[];
+      children: ({
+        kind: "dataset";
+        species: string;
+        route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+        datasetVersion: number;
+      } | {
+        kind: "reference";
+        referenceId: string;
+        title: string;
+        url: string | null;
+      } | {
+        kind: "lookalike";
+        edibleSpecies: string;
+        lookalikeSpecies: string;
+      } | {
+        kind: "model";
+        provider: string;
+        model: string;
+      })[];
+      warnings: ({
+        kind: "dataset";
+        species: string;
+        route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+        datasetVersion: number;
+      } | {
+        kind: "reference";
+        referenceId: string;
+        title: string;
+        url: string | null;
+      } | {
+        kind: "lookalike";
+        edibleSpecies: string;
+        lookalikeSpecies: string;
+      } | {
+        kind: "model";
+        provider: string;
+        model: string;
+      })[];
+    };
+    presentation: {
+      doNotConsume: boolean;
+      routes: {
+        ingestion: "show" | "downgrade" | "suppress";
+        skinContact: "show" | "downgrade" | "suppress";
+        inhalation: "show" | "downgrade" | "suppress";
+        pets: "show" | "downgrade" | "suppress";
+        children: "show" | "downgrade" | "suppress";
+      };
+      reasons: {
+        code: "confidence_below_threshold";
+        route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+        confidence: "high" | "medium" | "low";
+        requiredConfidence: "high" | "medium" | "low";
+        message: string;
+      }[];
+    };
+    confidence: "high" | "medium" | "low";
+    warnings: string;
+    description: string;
+    edibility: "safe" | "unsafe" | "unverified";
+    lookalikeWarnings: {
+      edibleSpecies: string;
+      edibleCommonName: string;
+      lookalikeSpecies: string;
+      lookalikeCommonName: string;
+      distinguishingTraits: string;
+    }[];
+    lookalikeAcknowledgedAt: string | null;
+    originalAnalysis: {
+      species: string;
+      commonName: string;
+    };
+    acceptedName: string | null;
+    nameMatch: "exact" | "synonym" | "fuzzy" | "none" | null;
+    speciesId: string | null;
+    notes: string | null;
+    correctedAt: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    locationSource: "device" | "exif" | null;
+    createdAt: string;
+  }[];
+  nextCursor: string | null;
+};
+
+export type ListScansInBoundingBoxQuery = {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+};
+
+export type ListScansInBoundingBoxResponse = {
+  scans: {
+    id: string;
+    imageUrl: string;
+    thumbnailUrl: string;
+    mediumUrl: string;
+    species: string;
+    commonName: string;
+    safety: {
+      ingestion: {
+        severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+        conditions: string[];
+        notes: string;
+      };
+      skinContact: {
+        severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+        conditions: string[];
+        notes: string;
+      };
+      inhalation: {
+        severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+        conditions: string[];
+        notes: string;
+      };
+      pets: {
+        severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+        conditions: string[];
+        notes: string;
+      };
+      children: {
+        severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+        conditions: string[];
+        notes: string;
+      };
+    };
+    edibility: "safe" | "unsafe" | "unverified";
+    confidence: "high" | "medium" | "low";
+    presentation: {
+      doNotConsume: boolean;
+      routes: {
+        ingestion: "show" | "downgrade" | "suppress";
+        skinContact: "show" | "downgrade" | "suppress";
+        inhalation: "show" | "downgrade" | "suppress";
+        pets: "show" | "downgrade" | "suppress";
+        children: "show" | "downgrade" | "suppress";
+      };
+      reasons: {
+        code: "confidence_below_threshold";
+        route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+        confidence: "high" | "medium" | "low";
+        requiredConfidence: "high" | "medium" | "low";
+        message: string;
+      }[];
+    };
+    createdAt: string;
+    latitude: number;
+    longitude: number;
+  }[];
+  truncated: boolean;
+};
+
+export type GetScanParams = {
+  id: string;
+};
+
+export type GetScanResponse = {
+  imageUrl: string;
+  thumbnailUrl: string;
+  mediumUrl: string;
+  id: string;
+  status: "complete";
+  species: string;
+  commonName: string;
+  safety: {
+    ingestion: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    skinContact: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    inhalation: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    pets: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    children: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+  };
+  safetySources: {
+    ingestion: "curated" | "model";
+    skinContact: "curated" | "model";
+    inhalation: "curated" | "model";
+    pets: "curated" | "model";
+    children: "curated" | "model";
+  };
+  safetyConflicts: {
+    route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+    modelSeverity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+    curatedSeverity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+  }[];
+  safetyDatasetVersion: number | null;
+  safetyCitations: {
+    ingestion: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    skinContact: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    inhalation: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    pets: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    children: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    warnings: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+  };
+  presentation: {
+    doNotConsume: boolean;
+    routes: {
+      ingestion: "show" | "downgrade" | "suppress";
+      skinContact: "show" | "downgrade" | "suppress";
+      inhalation: "show" | "downgrade" | "suppress";
+      pets: "show" | "downgrade" | "suppress";
+      children: "show" | "downgrade" | "suppress";
+    };
+    reasons: {
+      code: "confidence_below_threshold";
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      confidence: "high" | "medium" | "low";
+      requiredConfidence: "high" | "medium" | "low";
+      message: string;
+    }[];
+  };
+  confidence: "high" | "medium" | "low";
+  warnings: string;
+  description: string;
+  edibility: "safe" | "unsafe" | "unverified";
+  lookalikeWarnings: {
+    edibleSpecies: string;
+    edibleCommonName: string;
+    lookalikeSpecies: string;
+    lookalikeCommonName: string;
+    distinguishingTraits: string;
+  }[];
+  lookalikeAcknowledgedAt: string | null;
+  originalAnalysis: {
+    species: string;
+    commonName: string;
+  };
+  acceptedName: string | null;
+  nameMatch: "exact" | "synonym" | "fuzzy" | "none" | null;
+  speciesId: string | null;
+  notes: string | null;
+  correctedAt: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  locationSource: "device" | "exif" | null;
+  createdAt: string;
+  candidates: {
+    species: string;
+    commonName: string;
+    confidence: "high" | "medium" | "low";
+    distinguishingFeatures: string;
+  }[];
+  reanalysisStatus: "pending" | "analysing" | "failed" | null;
+} | {
+  imageUrl: string;
+  thumbnailUrl: string;
+  mediumUrl: string;
+  id: string;
+  status: "pending" | "analysing" | "failed";
+  latitude: number | null;
+  longitude: number | null;
+  locationSource: "device" | "exif" | null;
+  createdAt: string;
+};
+
+export type UpdateScanParams = {
+  id: string;
+};
+
+export type UpdateScanBody = {
+  species?: string;
+  commonName?: string;
+  notes?: string | null;
+};
+
+export type UpdateScanResponse = {
+  imageUrl: string;
+  thumbnailUrl: string;
+  mediumUrl: string;
+  id: string;
+  status: "complete";
+  species: string;
+  commonName: string;
+  safety: {
+    ingestion: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    skinContact: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    inhalation: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    pets: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    children: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+  };
+  safetySources: {
+    ingestion: "curated" | "model";
+    skinContact: "curated" | "model";
+    inhalation: "curated" | "model";
+    pets: "curated" | "model";
+    children: "curated" | "model";
+  };
+  safetyConflicts: {
+    route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+    modelSeverity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+    curatedSeverity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+  }[];
+  safetyDatasetVersion: number | null;
+  safetyCitations: {
+    ingestion: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    skinContact: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    inhalation: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    pets: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    children: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    warnings: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+  };
+  presentation: {
+    doNotConsume: boolean;
+    routes: {
+      ingestion: "show" | "downgrade" | "suppress";
+      skinContact: "show" | "downgrade" | "suppress";
+      inhalation: "show" | "downgrade" | "suppress";
+      pets: "show" | "downgrade" | "suppress";
+      children: "show" | "downgrade" | "suppress";
+    };
+    reasons: {
+      code: "confidence_below_threshold";
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      confidence: "high" | "medium" | "low";
+      requiredConfidence: "high" | "medium" | "low";
+      message: string;
+    }[];
+  };
+  confidence: "high" | "medium" | "low";
+  warnings: string;
+  description: string;
+  edibility: "safe" | "unsafe" | "unverified";
+  lookalikeWarnings: {
+    edibleSpecies: string;
+    edibleCommonName: string;
+    lookalikeSpecies: string;
+    lookalikeCommonName: string;
+    distinguishingTraits: string;
+  }[];
+  lookalikeAcknowledgedAt: string | null;
+  originalAnalysis: {
+    species: string;
+    commonName: string;
+  };
+  acceptedName: string | null;
+  nameMatch: "exact" | "synonym" | "fuzzy" | "none" | null;
+  speciesId: string | null;
+  notes: string | null;
+  correctedAt: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  locationSource: "device" | "exif" | null;
+  createdAt: string;
+};
+
+export type DeleteScanParams = {
+  id: string;
+};
+
+export type DeleteScanResponse = {
+  success: true;
+  scanId: string;
+};
+
+export type ReanalyzeScanParams = {
+  id: string;
+};
+
+export type ReanalyzeScanBody = {
+  hint?: string;
+};
+
+export type ReanalyzeScanResponse = {
+  imageUrl: string;
+  thumbnailUrl: string;
+  mediumUrl: string;
+  id: string;
+  status: "complete";
+  species: string;
+  commonName: string;
+  safety: {
+    ingestion: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    skinContact: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    inhalation: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    pets: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    children: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+  };
+  safetySources: {
+    ingestion: "curated" | "model";
+    skinContact: "curated" | "model";
+    inhalation: "curated" | "model";
+    pets: "curated" | "model";
+    children: "curated" | "model";
+  };
+  safetyConflicts: {
+    route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+    modelSeverity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+    curatedSeverity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+  }[];
+  safetyDatasetVersion: number | null;
+  safetyCitations: {
+    ingestion: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    skinContact: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    inhalation: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    pets: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    children: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+    warnings: ({
+      kind: "dataset";
+      species: string;
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      datasetVersion: number;
+    } | {
+      kind: "reference";
+      referenceId: string;
+      title: string;
+      url: string | null;
+    } | {
+      kind: "lookalike";
+      edibleSpecies: string;
+      lookalikeSpecies: string;
+    } | {
+      kind: "model";
+      provider: string;
+      model: string;
+    })[];
+  };
+  presentation: {
+    doNotConsume: boolean;
+    routes: {
+      ingestion: "show" | "downgrade" | "suppress";
+      skinContact: "show" | "downgrade" | "suppress";
+      inhalation: "show" | "downgrade" | "suppress";
+      pets: "show" | "downgrade" | "suppress";
+      children: "show" | "downgrade" | "suppress";
+    };
+    reasons: {
+      code: "confidence_below_threshold";
+      route: "ingestion" | "skinContact" | "inhalation" | "pets" | "children";
+      confidence: "high" | "medium" | "low";
+      requiredConfidence: "high" | "medium" | "low";
+      message: string;
+    }[];
+  };
+  confidence: "high" | "medium" | "low";
+  warnings: string;
+  description: string;
+  edibility: "safe" | "unsafe" | "unverified";
+  lookalikeWarnings: {
+    edibleSpecies: string;
+    edibleCommonName: string;
+    lookalikeSpecies: string;
+    lookalikeCommonName: string;
+    distinguishingTraits: string;
+  }[];
+  lookalikeAcknowledgedAt: string | null;
+  originalAnalysis: {
+    species: string;
+    commonName: string;
+  };
+  acceptedName: string | null;
+  nameMatch: "exact" | "synonym" | "fuzzy" | "none" | null;
+  speciesId: string | null;
+  notes: string | null;
+  correctedAt: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  locationSource: "device" | "exif" | null;
+  createdAt: string;
+  candidates: {
+    species: string;
+    commonName: string;
+    confidence: "high" | "medium" | "low";
+    distinguishingFeatures: string;
+  }[];
+  reanalysisStatus: "pending" | "analysing" | "failed" | null;
+} | {
+  imageUrl: string;
+  thumbnailUrl: string;
+  mediumUrl: string;
+  id: string;
+  status: "pending" | "analysing" | "failed";
+  latitude: number | null;
+  longitude: number | null;
+  locationSource: "device" | "exif" | null;
+  createdAt: string;
+};
+
+export type ListScanAnalysesParams = {
+  id: string;
+};
+
+export type ListScanAnalysesResponse = {
+  analyses: {
+    version: number;
+    provider: string;
+    model: string;
+    hint: string | null;
+    analysis: {
+      species: string;
+      commonName: string;
+      safety: {
+        ingestion: {
+          severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+          conditions: string[];
+          notes: string;
+        };
+        skinContact: {
+          severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+          conditions: string[];
+          notes: string;
+        };
+        inhalation: {
+          severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+          conditions: string[];
+          notes: string;
+        };
+        pets: {
+          severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+          conditions: string[];
+          notes: string;
+        };
+        children: {
+          severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+          conditions: string[];
+          notes: string;
+        };
+      };
+      confidence: "high" | "medium" | "low";
+      warnings: string;
+      description: string;
+      candidates: {
+        species: string;
+        commonName: string;
+        confidence: "high" | "medium" | "low";
+        distinguishingFeatures: string;
+      }[];
+    };
+    edibility: "safe" | "unsafe" | "unverified";
+    lookalikeWarnings: {
+      edibleSpecies: string;
+      edibleCommonName: string;
+      lookalikeSpecies: string;
+      lookalikeCommonName: string;
+      distinguishingTraits: string;
+    }[];
+    correction: {
+      species: string;
+      commonName: string;
+      correctedAt: string;
+    } | null;
+    createdAt: string;
+  }[];
+};
+
+export type AcknowledgeLookalikesParams = {
+  id: string;
+};
+
+export type AcknowledgeLookalikesResponse = {
+  scanId: string;
+  lookalikeAcknowledgedAt: string;
+};
+
+export type GetSettingsResponse = {
+  locationPrecision: "exact" | "approximate" | "off";
+};
+
+export type UpdateSettingsBody = {
+  locationPrecision: "exact" | "approximate" | "off";
+};
+
+export type UpdateSettingsResponse = {
+  locationPrecision: "exact" | "approximate" | "off";
+};
+
+export type GetSpeciesParams = {
+  id: string;
+};
+
+export type GetSpeciesResponse = {
+  scientificName: string;
+  ranks: {
+    kingdom?: string;
+    phylum?: string;
+    class?: string;
+    order?: string;
+    family?: string;
+    genus?: string;
+  };
+  commonNames: Record<string, unknown>;
+  id: string;
+  synonyms: string[];
+  safety: {
+    ingestion?: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    skinContact?: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    inhalation?: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    pets?: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+    children?: {
+      severity: "safe" | "caution" | "harmful" | "severe" | "deadly" | "unknown";
+      conditions: string[];
+      notes: string;
+    };
+  } | null;
+  scanCount: number;
+};
+
+export const createApi = (transport: ApiTransport) => ({
+  /** Upload a photo and queue it for identification */
+  uploadScan: (body: FormData, headers: UploadScanHeaders = {}) =>
+    transport(`/api/scans/upload`, { method: "POST", body, headers: definedValues(headers) }) as Promise<UploadScanResponse>,
+
+  /** Page through the user's scans, newest first */
+  listScans: (query: ListScansQuery = {}) =>
+    transport(`/api/scans${queryString(query)}`, { method: "GET" }) as Promise<ListScansResponse>,
+
+  /** The user's located scans inside a bounding box */
+  listScansInBoundingBox: (query: ListScansInBoundingBoxQuery) =>
+    transport(`/api/scans/bbox${queryString(query)}`, { method: "GET" }) as Promise<ListScansInBoundingBoxResponse>,
+
+  /** A scan with its ranked candidate species, or the status of its analysis */
+  getScan: (params: GetScanParams) =>
+    transport(`/api/scans/${encodeURIComponent(params.id)}`, { method: "GET" }) as Promise<GetScanResponse>,
+
+  /** Correct the identification or edit the notes of a scan */
+  updateScan: (params: UpdateScanParams, body: UpdateScanBody) =>
+    transport(`/api/scans/${encodeURIComponent(params.id)}`, { method: "PATCH", body: JSON.stringify(body) }) as Promise<UpdateScanResponse>,
+
+  /** Delete a scan and its images */
+  deleteScan: (params: DeleteScanParams) =>
+    transport(`/api/scans/${encodeURIComponent(params.id)}`, { method: "DELETE" }) as Promise<DeleteScanResponse>,
+
+  /** Queue another analysis of the stored photo, optionally with a hint from the user */
+  reanalyzeScan: (params: ReanalyzeScanParams, body: ReanalyzeScanBody) =>
+    transport(`/api/scans/${encodeURIComponent(params.id)}/reanalyze`, { method: "POST", body: JSON.stringify(body) }) as Promise<ReanalyzeScanResponse>,
+
+  /** Every analysis of a scan, newest first */
+  listScanAnalyses: (params: ListScanAnalysesParams) =>
+    transport(`/api/scans/${encodeURIComponent(params.id)}/analyses`, { method: "GET" }) as Promise<ListScanAnalysesResponse>,
+
+  /** Record that the user has read the look-alike warnings */
+  acknowledgeLookalikes: (params: AcknowledgeLookalikesParams) =>
+    transport(`/api/scans/${encodeURIComponent(params.id)}/acknowledge-lookalikes`, { method: "POST" }) as Promise<AcknowledgeLookalikesResponse>,
+
+  /** The user's settings, or the defaults until they save any */
+  getSettings: () =>
+    transport(`/api/settings`, { method: "GET" }) as Promise<GetSettingsResponse>,
+
+  /** Update the user's settings; location precision applies to scans uploaded from then on */
+  updateSettings: (body: UpdateSettingsBody) =>
+    transport(`/api/settings`, { method: "PATCH", body: JSON.stringify(body) }) as Promise<UpdateSettingsResponse>,
+
+  /** A catalog species with its curated safety data and the number of the user's scans linked to it */
+  getSpecies: (params: GetSpeciesParams) =>
+    transport(`/api/species/${encodeURIComponent(params.id)}`, { method: "GET" }) as Promise<GetSpeciesResponse>,
+});
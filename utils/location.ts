@@ -0,0 +1,12 @@
+import type { LocationPrecision } from "@/backend/src/location/precision";
+
+/**
+ * How precisely scan locations are stored, chosen per user in settings
+ */
+export type { LocationPrecision };
+
+export const LOCATION_PRECISION_OPTIONS: { value: LocationPrecision; label: string; description: string }[] = [
+  { value: "exact", label: "Exact", description: "Store the precise location and keep GPS data in photos" },
+  { value: "approximate", label: "~1 km", description: "Round locations to about 1 km and remove GPS data from photos" },
+  { value: "off", label: "Off", description: "Never store a location and remove GPS data from photos" },
+];
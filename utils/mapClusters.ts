@@ -0,0 +1,81 @@
+/**
+ * Grid-based marker clustering for the scan map
+ */
+
+export interface MapPoint {
+  id: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface MapCluster<T extends MapPoint> {
+  id: string;
+  latitude: number;
+  longitude: number;
+  items: T[];
+}
+
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+// Below this latitude span (about 5 km) every scan gets its own marker
+const MIN_CLUSTER_DELTA = 0.05;
+// Grid cells across the visible region
+const GRID_CELLS = 6;
+
+/**
+ * Group points that fall in the same grid cell. Cells are aligned to the
+ * world, not the viewport, so clusters stay put while panning.
+ */
+export const clusterPoints = <T extends MapPoint>(points: T[], region: MapRegion): MapCluster<T>[] => {
+  if (region.latitudeDelta < MIN_CLUSTER_DELTA) {
+    return points.map((point) => ({
+      id: point.id,
+      latitude: point.latitude,
+      longitude: point.longitude,
+      items: [point],
+    }));
+  }
+
+  const cellLat = region.latitudeDelta / GRID_CELLS;
+  const cellLng = region.longitudeDelta / GRID_CELLS;
+  const cells = new Map<string, T[]>();
+
+  for (const point of points) {
+    const key = `${Math.floor(point.latitude / cellLat)}:${Math.floor(point.longitude / cellLng)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(point);
+    } else {
+      cells.set(key, [point]);
+    }
+  }
+
+  return Array.from(cells, ([key, items]) => ({
+    id: items.length === 1 ? items[0].id : `cluster-${key}`,
+    latitude: items.reduce((sum, item) => sum + item.latitude, 0) / items.length,
+    longitude: items.reduce((sum, item) => sum + item.longitude, 0) / items.length,
+    items,
+  }));
+};
+
+/**
+ * Bounding box query parameters for the visible region
+ */
+export const regionToBoundingBox = (region: MapRegion) => {
+  const wrapLongitude = (longitude: number) =>
+    longitude > 180 ? longitude - 360 : longitude < -180 ? longitude + 360 : longitude;
+  const clampLatitude = (latitude: number) => Math.max(-90, Math.min(90, latitude));
+  const wholeWorld = region.longitudeDelta >= 360;
+
+  return {
+    minLat: clampLatitude(region.latitude - region.latitudeDelta / 2),
+    maxLat: clampLatitude(region.latitude + region.latitudeDelta / 2),
+    minLng: wholeWorld ? -180 : wrapLongitude(region.longitude - region.longitudeDelta / 2),
+    maxLng: wholeWorld ? 180 : wrapLongitude(region.longitude + region.longitudeDelta / 2),
+  };
+};
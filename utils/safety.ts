@@ -0,0 +1,174 @@
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import { colors } from "@/styles/commonStyles";
+import type {
+  RouteAssessment,
+  SafetyAssessment,
+  SafetyCitation,
+  SafetyCitations,
+  SafetyConflict,
+  SafetyRoute,
+  SafetySeverity,
+  SafetySource,
+  SafetySources,
+} from "@/backend/src/safety/assessment";
+import type { Edibility, LookalikeWarning } from "@/backend/src/safety/lookalikes";
+import type { PresentationDecision } from "@/backend/src/contracts/scans";
+
+type Theme = typeof colors.light;
+
+/**
+ * Graded safety model returned by the backend for every scan, where each
+ * route's verdict came from, the edibility verdict of the server-side
+ * look-alike check, and which verdicts the presentation policy lets through
+ */
+export type {
+  Edibility,
+  LookalikeWarning,
+  PresentationDecision,
+  RouteAssessment,
+  SafetyAssessment,
+  SafetyCitation,
+  SafetyCitations,
+  SafetyConflict,
+  SafetyRoute,
+  SafetySeverity,
+  SafetySource,
+  SafetySources,
+};
+
+/**
+ * Exposure routes in display order
+ */
+export const SAFETY_ROUTES: { key: SafetyRoute; label: string; shortLabel: string }[] = [
+  { key: "ingestion", label: "Eating", shortLabel: "Eat" },
+  { key: "skinContact", label: "Touching", shortLabel: "Touch" },
+  { key: "inhalation", label: "Inhaling", shortLabel: "Inhale" },
+  { key: "pets", label: "Pets", shortLabel: "Pets" },
+  { key: "children", label: "Children", shortLabel: "Kids" },
+];
+
+export const SAFETY_SOURCE_LABELS: Record<SafetySource, string> = {
+  curated: "Reviewed data",
+  model: "AI assessment",
+};
+
+/**
+ * One-line description of what backs a safety claim
+ */
+export const citationLabel = (citation: SafetyCitation): string => {
+  switch (citation.kind) {
+    case "dataset": {
+      const route = SAFETY_ROUTES.find(({ key }) => key === citation.route)?.label ?? citation.route;
+      return `Curated safety dataset v${citation.datasetVersion}: ${citation.species}, ${route}`;
+    }
+    case "reference":
+      return `${citation.title} [${citation.referenceId}]`;
+    case "lookalike":
+      return `Look-alike list: ${citation.edibleSpecies} / ${citation.lookalikeSpecies}`;
+    case "model":
+      return `Model-generated, unverified (${citation.model})`;
+  }
+};
+
+export const SEVERITY_LABELS: Record<SafetySeverity, string> = {
+  safe: "Safe",
+  caution: "Caution",
+  harmful: "Harmful",
+  severe: "Severe",
+  deadly: "Deadly",
+  unknown: "Unknown",
+};
+
+/**
+ * Badge color for a severity level
+ */
+export const severityColor = (severity: SafetySeverity, theme: Theme): string => {
+  switch (severity) {
+    case "safe":
+      return theme.success;
+    case "caution":
+      return theme.warning;
+    case "harmful":
+    case "severe":
+    case "deadly":
+      return theme.danger;
+    default:
+      return theme.textSecondary;
+  }
+};
+
+/**
+ * SF Symbol and Material icon for a severity level
+ */
+export const severityIcon = (
+  severity: SafetySeverity
+): { ios: string; android: keyof typeof MaterialIcons.glyphMap } => {
+  switch (severity) {
+    case "safe":
+      return { ios: "checkmark.circle.fill", android: "check-circle" };
+    case "caution":
+      return { ios: "exclamationmark.circle.fill", android: "error" };
+    case "harmful":
+    case "severe":
+      return { ios: "xmark.circle.fill", android: "cancel" };
+    case "deadly":
+      return { ios: "exclamationmark.octagon.fill", android: "dangerous" };
+    default:
+      return { ios: "questionmark.circle.fill", android: "help" };
+  }
+};
+
+const UNASSESSED: RouteAssessment = { severity: "unknown", conditions: [], notes: "" };
+
+/**
+ * Fallback for responses that carry no safety assessment
+ */
+export const UNKNOWN_SAFETY: SafetyAssessment = {
+  ingestion: UNASSESSED,
+  skinContact: UNASSESSED,
+  inhalation: UNASSESSED,
+  pets: UNASSESSED,
+  children: UNASSESSED,
+};
+
+// An unassessed or held-back verdict must not pass for safe
+const SEVERITY_RANK: Record<SafetySeverity, number> = {
+  safe: 0,
+  unknown: 1,
+  caution: 2,
+  harmful: 3,
+  severe: 4,
+  deadly: 5,
+};
+
+/**
+ * Most serious of several severities; "unknown" outranks only "safe", and is
+ * also the result when there are none
+ */
+export const worstSeverity = (severities: SafetySeverity[]): SafetySeverity => {
+  if (severities.length === 0) {
+    return "unknown";
+  }
+  return severities.reduce((worst, severity) => (SEVERITY_RANK[severity] > SEVERITY_RANK[worst] ? severity : worst));
+};
+
+/**
+ * Worst severity across all exposure routes of a scan
+ */
+export const overallSeverity = (safety: SafetyAssessment): SafetySeverity => {
+  return worstSeverity(SAFETY_ROUTES.map((route) => safety[route.key].severity));
+};
+
+/**
+ * A scan's safety as the presentation policy allows it to be summarised:
+ * verdicts it held back count as "unknown"
+ */
+export const presentedSafety = (safety: SafetyAssessment, presentation: PresentationDecision): SafetyAssessment => {
+  const presented = { ...safety };
+  for (const { key } of SAFETY_ROUTES) {
+    if (presentation.routes[key] !== "show") {
+      presented[key] = UNASSESSED;
+    }
+  }
+  return presented;
+};
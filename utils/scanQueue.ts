@@ -0,0 +1,193 @@
+import { Directory, File, Paths } from "expo-file-system";
+import { ApiError } from "@/utils/api";
+import { api, ScanDetailResponse, ScanUploadResponse, UploadProgressEvent } from "@/utils/apiClient";
+
+/**
+ * A capture waiting to be uploaded. The id doubles as the clientScanId sent
+ * to the server, so every retry of the same capture maps to one scan.
+ */
+export interface PendingScan {
+  id: string;
+  imageUri: string;
+  mimeType: string;
+  latitude?: number;
+  longitude?: number;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  // Set once the server rejects the capture; it is not retried automatically
+  failedReason?: string;
+}
+
+export interface ScanCapture {
+  imageUri: string;
+  mimeType: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * Whether a failed upload should stay queued: no connection, 5xx, 408, 429,
+ * or an earlier attempt still in progress. Anything else means the server
+ * will never accept the capture.
+ */
+export const isRetryableUploadError = (error: ApiError): boolean => {
+  return (
+    error.isNetworkError ||
+    error.status >= 500 ||
+    error.status === 408 ||
+    error.status === 429 ||
+    error.code === "idempotency_key_in_progress"
+  );
+};
+
+const QUEUE_DIRECTORY = new Directory(Paths.document, "pending-scans");
+const MANIFEST = new File(QUEUE_DIRECTORY, "queue.json");
+
+const ANALYSIS_POLL_INTERVAL_MS = 2 * 1000;
+const ANALYSIS_WAIT_MS = 2 * 60 * 1000;
+
+const BASE_RETRY_DELAY_MS = 15 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+/**
+ * Random RFC 4122 version 4 UUID
+ */
+export const generateClientScanId = (): string => {
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    return (char === "x" ? random : (random & 0x3) | 0x8).toString(16);
+  });
+};
+
+/**
+ * Exponential backoff with jitter: 15s, 30s, 1m, ... capped at 30 minutes
+ */
+export const nextRetryDelay = (attempts: number): number => {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const writeQueue = (queue: PendingScan[]) => {
+  QUEUE_DIRECTORY.create({ intermediates: true, idempotent: true });
+  MANIFEST.write(JSON.stringify(queue));
+};
+
+/**
+ * Pending captures persisted on the device, oldest first
+ */
+export const loadPendingScans = async (): Promise<PendingScan[]> => {
+  try {
+    if (!MANIFEST.exists) {
+      return [];
+    }
+    return JSON.parse(await MANIFEST.text()) as PendingScan[];
+  } catch (error) {
+    console.error("[ScanQueue] Failed to read queue:", error);
+    return [];
+  }
+};
+
+/**
+ * Copy the image into app storage (picker and camera files are temporary)
+ * and append the capture to the queue
+ */
+export const enqueueScan = async (
+  queue: PendingScan[],
+  capture: ScanCapture,
+  id: string = generateClientScanId()
+): Promise<PendingScan[]> => {
+  QUEUE_DIRECTORY.create({ intermediates: true, idempotent: true });
+  const extension = capture.imageUri.split(".").pop() || "jpg";
+  const image = new File(QUEUE_DIRECTORY, `${id}.${extension}`);
+  new File(capture.imageUri).copy(image);
+
+  const now = new Date().toISOString();
+  const pending: PendingScan = {
+    id,
+    imageUri: image.uri,
+    mimeType: capture.mimeType,
+    latitude: capture.latitude,
+    longitude: capture.longitude,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+
+  const next = [...queue, pending];
+  writeQueue(next);
+  console.log("[ScanQueue] Queued scan:", id);
+  return next;
+};
+
+/**
+ * Replace a queued capture, e.g. after a failed attempt
+ */
+export const updatePendingScan = (queue: PendingScan[], updated: PendingScan): PendingScan[] => {
+  const next = queue.map((pending) => (pending.id === updated.id ? updated : pending));
+  writeQueue(next);
+  return next;
+};
+
+/**
+ * Drop a capture from the queue and delete its image copy
+ */
+export const removePendingScan = (queue: PendingScan[], id: string): PendingScan[] => {
+  const pending = queue.find((item) => item.id === id);
+  if (pending) {
+    try {
+      const image = new File(pending.imageUri);
+      if (image.exists) {
+        image.delete();
+      }
+    } catch (error) {
+      console.error("[ScanQueue] Failed to delete queued image:", error);
+    }
+  }
+
+  const next = queue.filter((item) => item.id !== id);
+  writeQueue(next);
+  return next;
+};
+
+/**
+ * Upload a capture, which the server then analyses in the background. Safe
+ * to call repeatedly for the same clientScanId, which is also sent as the
+ * Idempotency-Key: the server replays the existing scan instead of creating
+ * another. With onProgress the server streams its stages while it works.
+ */
+export const uploadScan = (
+  capture: ScanCapture,
+  clientScanId: string,
+  onProgress?: (event: UploadProgressEvent) => void
+): Promise<ScanUploadResponse> => {
+  console.log("[ScanQueue] Uploading scan:", clientScanId);
+  const upload = {
+    imageUri: capture.imageUri,
+    mimeType: capture.mimeType,
+    latitude: capture.latitude,
+    longitude: capture.longitude,
+    clientScanId,
+    idempotencyKey: clientScanId,
+  };
+  return onProgress ? api.scans.uploadWithProgress(upload, onProgress) : api.scans.upload(upload);
+};
+
+/**
+ * Poll an uploaded or re-analysed scan until the server has analysed it or
+ * given up. Resolves with the scan as last seen, which is still unanalysed
+ * (or still re-analysing) if the wait ran out.
+ */
+export const waitForAnalysis = async (scanId: string): Promise<ScanDetailResponse> => {
+  const deadline = Date.now() + ANALYSIS_WAIT_MS;
+  for (;;) {
+    const scan = await api.scans.get(scanId);
+    const settled =
+      scan.status === "failed" ||
+      (scan.status === "complete" && scan.reanalysisStatus !== "pending" && scan.reanalysisStatus !== "analysing");
+    if (settled || Date.now() >= deadline) {
+      return scan;
+    }
+    await new Promise((resolve) => setTimeout(resolve, ANALYSIS_POLL_INTERVAL_MS));
+  }
+};